@@ -0,0 +1,8 @@
+module.exports = {
+    "preset": "ts-jest",
+    "testEnvironment": "node",
+    "testMatch": [
+        "**/__tests__/**/*.spec.ts"
+    ],
+    "testTimeout": 10000
+};
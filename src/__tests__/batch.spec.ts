@@ -0,0 +1,126 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue } from "..";
+
+describe("batches", () => {
+    it("should execute queued items of a key together and resolve each of them", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            }
+        });
+
+        const batchSizes: number[] = [];
+        queue.register({
+            "double": {
+                "batch": {
+                    "action": async ({ items, key }) => {
+                        expect(key).toBe("double");
+
+                        batchSizes.push(items.length);
+
+                        return items.map(({ data }) => {
+                            if (data.value < 0) {
+                                return {
+                                    "reason": new Error("negative value"),
+                                    "status": "rejected"
+                                };
+                            }
+
+                            return {
+                                "status": "fulfilled",
+                                "value": data.value * 2
+                            };
+                        });
+                    },
+                    "maxSize": 3,
+                    "maxWait": 50
+                },
+                "concurrency": 3
+            }
+        });
+
+        await queue.start();
+        try {
+            const contexts = await queue.enqueueMany([1, 2, -3, 4, 5].map((value) => {
+                return {
+                    "data": {
+                        value
+                    },
+                    "key": "double"
+                };
+            }));
+
+            const results = await Promise.all(contexts.map(({ id }) => {
+                return queue.waitFor(id, { "interval": 5 }).catch((error) => {
+                    return error.message;
+                });
+            }));
+
+            expect(results).toEqual([2, 4, "negative value", 8, 10]);
+            expect(batchSizes).toEqual([3, 2]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should fail all items, if a batch does not return one result for each item", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            }
+        });
+
+        queue.register({
+            "foo": {
+                "batch": {
+                    "action": async () => {
+                        return [];
+                    },
+                    "maxSize": 2
+                },
+                "concurrency": 2
+            }
+        });
+
+        await queue.start();
+        try {
+            const contexts = await queue.enqueueMany([
+                { "key": "foo" },
+                { "key": "foo" }
+            ]);
+
+            for (const { id } of contexts) {
+                await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("must return one result for each item");
+            }
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should enqueue nothing for an empty list", async () => {
+        const queue = new Queue();
+
+        try {
+            await expect(queue.enqueueMany([])).resolves.toEqual([]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,142 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { IQueueStorage, MemoryQueueStorage, Queue, SqliteQueueStorage } from "..";
+
+const storageFactories: [string, () => IQueueStorage][] = [
+    ["MemoryQueueStorage", () => {
+        return new MemoryQueueStorage();
+    }],
+    ["SqliteQueueStorage", () => {
+        return new SqliteQueueStorage({
+            "file": ":memory:",
+            "pollInterval": 10
+        });
+    }]
+];
+
+describe.each(storageFactories)("cancellation with %s", (_, createStorage) => {
+    it("should cancel a queued task, before it is executed", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        let executionCount = 0;
+        queue.register({
+            "foo": async () => {
+                ++executionCount;
+            }
+        });
+
+        await queue.start();
+        try {
+            queue.pause("foo");
+
+            const { id } = await queue.enqueue("foo");
+
+            await expect(queue.cancel(id)).resolves.toBe(true);
+            // already finished
+            await expect(queue.cancel(id)).resolves.toBe(false);
+
+            queue.resume("foo");
+
+            await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("has been cancelled");
+            expect((await queue.getTask(id))?.status).toBe("cancelled");
+            expect(executionCount).toBe(0);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should abort the signal of a running task", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        let isStarted = false;
+        let wasAborted = false;
+        queue.register({
+            "foo": async ({ signal }) => {
+                isStarted = true;
+
+                while (!signal.aborted) {
+                    await new Promise((resolve) => {
+                        setTimeout(resolve, 5);
+                    });
+                }
+
+                wasAborted = true;
+
+                // is ignored
+                return 42;
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo");
+
+            while (!isStarted) {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 5);
+                });
+            }
+
+            await expect(queue.cancel(id)).resolves.toBe(true);
+
+            await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("has been cancelled");
+
+            while (!wasAborted) {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 5);
+                });
+            }
+            expect((await queue.getTask(id))?.status).toBe("cancelled");
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should cancel all unfinished tasks with a specific key", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        queue.register({
+            "bar": async () => { },
+            "foo": async () => { }
+        });
+
+        await queue.start();
+        try {
+            queue.pause("bar");
+            queue.pause("foo");
+
+            await queue.enqueue("foo");
+            await queue.enqueue("foo");
+            const { id } = await queue.enqueue("bar");
+
+            await expect(queue.cancelByKey("foo")).resolves.toBe(2);
+            await expect(queue.cancelByKey("foo")).resolves.toBe(0);
+
+            expect((await queue.getTask(id))?.status).toBe("queued");
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,89 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue } from "..";
+import { getNextCronDate, parseCronExpression } from "../utils/cron";
+
+describe("cron expressions", () => {
+    it("should find the next matching date", () => {
+        const cron = parseCronExpression("30 8 * * 1");
+
+        // Wednesday, 2024-01-03
+        const nextDate = getNextCronDate(cron, new Date(2024, 0, 3, 12, 0));
+
+        expect(nextDate).toEqual(new Date(2024, 0, 8, 8, 30));
+    });
+
+    it.each([
+        "1,,2 * * * *",
+        "1- * * * *",
+        "-5 * * * *",
+        "*/ * * * *",
+        "60 * * * *",
+        "* * * *",
+        "0 0 30 2 *",
+        "0 0 31 4,6,9,11 *"
+    ])("should reject invalid expression %s", (expression) => {
+        expect(() => {
+            return parseCronExpression(expression);
+        }).toThrow(SyntaxError);
+    });
+
+    it("should accept February 29th", () => {
+        const cron = parseCronExpression("0 0 29 2 *");
+
+        expect(getNextCronDate(cron, new Date(2025, 0, 1))).toEqual(new Date(2028, 1, 29));
+    });
+});
+
+describe("Queue.registerRecurring()", () => {
+    it("should reject cron expressions, which never match", () => {
+        const queue = new Queue();
+        queue.register({
+            "task": async () => { }
+        });
+
+        expect(() => {
+            return queue.registerRecurring({
+                "cron": "0 0 30 2 *",
+                "key": "task"
+            });
+        }).toThrow("never matches");
+    });
+
+    it("should not stay running, if recurring jobs cannot be started", async () => {
+        const queue = new Queue();
+        queue.register({
+            "task": async () => { }
+        });
+        queue.registerRecurring({
+            "interval": 60000,
+            "key": "task"
+        });
+
+        jest.spyOn(queue as any, "scheduleRecurringJob").mockImplementationOnce(() => {
+            throw new Error("Could not schedule job");
+        });
+
+        await expect(queue.start()).rejects.toThrow("Could not schedule job");
+        expect(queue.isRunning).toBe(false);
+
+        // can be started again
+        await expect(queue.start()).resolves.toBe(true);
+        expect(queue.isRunning).toBe(true);
+
+        await queue.dispose();
+    });
+});
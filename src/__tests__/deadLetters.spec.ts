@@ -0,0 +1,157 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { IMemoryQueueStorageOptions, IQueueStorage, MemoryQueueStorage, Queue, SqliteQueueStorage } from "..";
+
+const storageFactories: [string, (options?: IMemoryQueueStorageOptions) => IQueueStorage][] = [
+    ["MemoryQueueStorage", (options) => {
+        return new MemoryQueueStorage(options);
+    }],
+    ["SqliteQueueStorage", (options) => {
+        return new SqliteQueueStorage({
+            ...options,
+            "file": ":memory:",
+            "pollInterval": 10
+        });
+    }]
+];
+
+describe.each(storageFactories)("dead-letter tasks with %s", (_, createStorage) => {
+    it("should requeue a failed task and keep its previous attempts", async () => {
+        const queue = new Queue({
+            "retry": {
+                "delay": 1,
+                "maxAttempts": 2
+            },
+            "storage": createStorage()
+        });
+
+        let shouldFail = true;
+        queue.register({
+            "foo": async () => {
+                if (shouldFail) {
+                    throw new Error("foo failed");
+                }
+
+                return 42;
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo");
+
+            await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("foo failed");
+
+            const deadLetterTasks = await queue.getDeadLetterTasks();
+            expect(deadLetterTasks.map((t) => {
+                return t.id;
+            })).toEqual([id]);
+            expect(deadLetterTasks[0].attempts.length).toBe(2);
+            expect(deadLetterTasks[0].lastError?.message).toBe("foo failed");
+
+            shouldFail = false;
+
+            await expect(queue.requeueDeadLetterTask(id)).resolves.toEqual({ id });
+            await expect(queue.waitFor(id, { "interval": 5 })).resolves.toBe(42);
+
+            await expect(queue.getDeadLetterTasks()).resolves.toEqual([]);
+
+            const task = await queue.getTask(id);
+            expect(task?.attempts.length).toBe(3);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should not requeue a task, while another one with the same idempotency key is active", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            },
+            "storage": createStorage({
+                // keys of finished tasks are released at once
+                "idempotencyRetention": 0
+            })
+        });
+
+        queue.register({
+            "foo": async () => {
+                throw new Error("foo failed");
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo", {
+                "idempotencyKey": "baz"
+            });
+
+            await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("foo failed");
+
+            queue.pause("foo");
+
+            const { "id": activeId } = await queue.enqueue("foo", {
+                "idempotencyKey": "baz"
+            });
+            expect(activeId).not.toBe(id);
+
+            await expect(queue.requeueDeadLetterTask(id)).resolves.toEqual({
+                "id": activeId,
+                "isDuplicate": true
+            });
+            expect((await queue.getDeadLetterTasks()).length).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should purge dead-letter tasks", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            },
+            "storage": createStorage()
+        });
+
+        queue.register({
+            "foo": async () => {
+                throw new Error("foo failed");
+            }
+        });
+
+        await queue.start();
+        try {
+            const ids: any[] = [];
+            for (let i = 0; i < 3; i++) {
+                const { id } = await queue.enqueue("foo");
+                await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("foo failed");
+
+                ids.push(id);
+            }
+
+            await expect(queue.purgeDeadLetterTasks([ids[0]])).resolves.toBe(1);
+            expect((await queue.getDeadLetterTasks()).length).toBe(2);
+
+            await expect(queue.purgeDeadLetterTasks()).resolves.toBe(2);
+            await expect(queue.getDeadLetterTasks()).resolves.toEqual([]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,103 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { IQueueStorage, MemoryQueueStorage, Queue, SqliteQueueStorage } from "..";
+
+const storageFactories: [string, () => IQueueStorage][] = [
+    ["MemoryQueueStorage", () => {
+        return new MemoryQueueStorage();
+    }],
+    ["SqliteQueueStorage", () => {
+        return new SqliteQueueStorage({
+            "file": ":memory:",
+            "pollInterval": 10
+        });
+    }]
+];
+
+describe.each(storageFactories)("delayed tasks with %s", (_, createStorage) => {
+    it("should not execute a task before it is due", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        const executedAt: Record<string, number> = {};
+        queue.register({
+            "foo": async ({ data }) => {
+                executedAt[data.name] = Date.now();
+            }
+        });
+
+        await queue.start();
+        try {
+            const startTime = Date.now();
+
+            const { "id": id1 } = await queue.enqueue("foo", {
+                "data": {
+                    "name": "delay"
+                },
+                "delay": 150
+            });
+            const { "id": id2 } = await queue.enqueue("foo", {
+                "data": {
+                    "name": "runAt"
+                },
+                // has priority over delay
+                "delay": 10000,
+                "runAt": new Date(startTime + 50)
+            });
+            const { "id": id3 } = await queue.enqueue("foo", {
+                "data": {
+                    "name": "now"
+                }
+            });
+
+            expect((await queue.getTask(id1))?.status).toBe("queued");
+
+            await queue.waitFor(id1, { "interval": 5 });
+            await queue.waitFor(id2, { "interval": 5 });
+            await queue.waitFor(id3, { "interval": 5 });
+
+            expect(executedAt.delay - startTime).toBeGreaterThanOrEqual(140);
+            expect(executedAt.runAt - startTime).toBeGreaterThanOrEqual(40);
+            expect(executedAt.runAt).toBeLessThan(executedAt.delay);
+            expect(executedAt.now).toBeLessThan(executedAt.runAt);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
+
+describe("delayed tasks", () => {
+    it("should reject invalid values", async () => {
+        const queue = new Queue();
+        queue.register({
+            "foo": async () => { }
+        });
+
+        try {
+            await expect(queue.enqueue("foo", {
+                "runAt": "tomorrow" as any
+            })).rejects.toThrow(TypeError);
+            await expect(queue.enqueue("foo", {
+                "delay": "1000" as any
+            })).rejects.toThrow(TypeError);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
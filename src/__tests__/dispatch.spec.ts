@@ -0,0 +1,125 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { MemoryQueueStorage, Queue } from "..";
+
+async function runAll(queue: Queue, count: number) {
+    await new Promise<void>((resolve) => {
+        let finished = 0;
+
+        queue.on("succeeded", () => {
+            if (++finished === count) {
+                resolve();
+            }
+        });
+
+        queue.start();
+    });
+}
+
+describe("dispatching of tasks", () => {
+    it("should execute tasks by priority and in order of enqueueing", async () => {
+        const queue = new Queue({ "concurrency": 1 });
+
+        const order: string[] = [];
+        queue.register({
+            "task": async ({ data }) => {
+                order.push(data.name);
+            }
+        });
+
+        await queue.enqueue("task", { "data": { "name": "a0" } });
+        await queue.enqueue("task", { "data": { "name": "b2" }, "priority": 2 });
+        await queue.enqueue("task", { "data": { "name": "c1" }, "priority": 1 });
+        await queue.enqueue("task", { "data": { "name": "d2" }, "priority": 2 });
+        await queue.enqueue("task", { "data": { "name": "e0" } });
+
+        await runAll(queue, 5);
+        await queue.dispose();
+
+        expect(order).toEqual(["b2", "d2", "c1", "a0", "e0"]);
+    });
+
+    it("should increase the priority of waiting tasks by aging", async () => {
+        const queue = new Queue({
+            "concurrency": 1,
+            "storage": new MemoryQueueStorage({
+                "agingInterval": 5
+            })
+        });
+
+        const order: string[] = [];
+        queue.register({
+            "task": async ({ data }) => {
+                order.push(data.name);
+            }
+        });
+
+        await queue.enqueue("task", { "data": { "name": "old" } });
+        await new Promise((resolve) => {
+            setTimeout(resolve, 100);
+        });
+        await queue.enqueue("task", { "data": { "name": "new" }, "priority": 5 });
+
+        await runAll(queue, 2);
+        await queue.dispose();
+
+        expect(order).toEqual(["old", "new"]);
+    });
+
+    it("should respect global and per-key concurrency with many queued tasks", async () => {
+        const queue = new Queue({ "concurrency": 5 });
+
+        let running = 0;
+        let maxRunning = 0;
+        let runningLimited = 0;
+        let maxRunningLimited = 0;
+        queue.register({
+            "limited": {
+                "action": async () => {
+                    maxRunning = Math.max(maxRunning, ++running);
+                    maxRunningLimited = Math.max(maxRunningLimited, ++runningLimited);
+                    await new Promise(setImmediate);
+                    --runningLimited;
+                    --running;
+                },
+                "concurrency": 2
+            },
+            "task": async () => {
+                maxRunning = Math.max(maxRunning, ++running);
+                await new Promise(setImmediate);
+                --running;
+            }
+        });
+
+        const count = 2000;
+        await queue.enqueueMany(Array.from({ "length": count }, (_, index) => {
+            return {
+                "key": index % 2 ? "task" : "limited",
+                "priority": index % 3
+            };
+        }));
+
+        const startTime = Date.now();
+        await runAll(queue, count);
+        const duration = Date.now() - startTime;
+
+        await queue.dispose();
+
+        expect(maxRunning).toBe(5);
+        expect(maxRunningLimited).toBeLessThanOrEqual(2);
+        expect(duration).toBeLessThan(5000);
+    });
+});
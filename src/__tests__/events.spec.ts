@@ -0,0 +1,110 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue, QueueEvent } from "..";
+
+describe("events", () => {
+    it("should emit the lifecycle of a task", async () => {
+        const queue = new Queue({
+            "retry": {
+                "delay": 1,
+                "maxAttempts": 2
+            }
+        });
+
+        let attempt = 0;
+        queue.register({
+            "foo": async () => {
+                if (++attempt < 2) {
+                    throw new Error("foo failed");
+                }
+
+                return 42;
+            }
+        });
+
+        const events: string[] = [];
+        const eventNames: QueueEvent[] = ["enqueued", "failed", "retrying", "started", "succeeded"];
+        eventNames.forEach((event) => {
+            queue.on(event, (context: any) => {
+                events.push(`${event}:${context.attempt}`);
+            });
+        });
+
+        await queue.start();
+        try {
+            const idle = queue.once("idle");
+
+            const { id } = await queue.enqueue("foo");
+
+            const succeeded = await queue.once("succeeded");
+            expect(succeeded).toMatchObject({
+                id,
+                "key": "foo",
+                "result": 42
+            });
+            expect(typeof succeeded.duration).toBe("number");
+
+            await idle;
+
+            expect(events).toEqual([
+                "enqueued:0",
+                "started:1",
+                "retrying:1",
+                "started:2",
+                "succeeded:2"
+            ]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should remove event handlers", async () => {
+        const queue = new Queue();
+
+        queue.register({
+            "foo": async () => { }
+        });
+
+        let onCount = 0;
+        const onHandler = () => {
+            ++onCount;
+        };
+        let onceCount = 0;
+
+        queue.on("succeeded", onHandler);
+        queue.once("succeeded", () => {
+            ++onceCount;
+        });
+
+        await queue.start();
+        try {
+            const { "id": id1 } = await queue.enqueue("foo");
+            await queue.waitFor(id1, { "interval": 5 });
+
+            queue.off("succeeded", onHandler);
+
+            const { "id": id2 } = await queue.enqueue("foo");
+            await queue.waitFor(id2, { "interval": 5 });
+
+            expect(onCount).toBe(1);
+            expect(onceCount).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,249 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { IQueueFlow, IQueueStorage, MemoryQueueStorage, Queue, SqliteQueueStorage } from "..";
+
+const storageFactories: [string, () => IQueueStorage][] = [
+    ["MemoryQueueStorage", () => {
+        return new MemoryQueueStorage();
+    }],
+    ["SqliteQueueStorage", () => {
+        return new SqliteQueueStorage({
+            "file": ":memory:",
+            "pollInterval": 10
+        });
+    }]
+];
+
+describe.each(storageFactories)("flows with %s", (_, createStorage) => {
+    it("should execute tasks after their parents with the results of them", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        const executedNames: string[] = [];
+        queue.register({
+            "download": async ({ data }) => {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, data.delay);
+                });
+
+                executedNames.push(data.name);
+
+                return data.name.toUpperCase();
+            },
+            "merge": async ({ parentResults }) => {
+                executedNames.push("merged");
+
+                return `${parentResults!.a}${parentResults!.b}`;
+            }
+        });
+
+        await queue.start();
+        try {
+            const flow = await queue.enqueueFlow({
+                "tasks": {
+                    "a": {
+                        "data": {
+                            "delay": 30,
+                            "name": "a"
+                        },
+                        "key": "download"
+                    },
+                    "b": {
+                        "data": {
+                            "delay": 0,
+                            "name": "b"
+                        },
+                        "key": "download"
+                    },
+                    "merged": {
+                        "dependsOn": ["a", "b"],
+                        "key": "merge"
+                    }
+                }
+            });
+
+            await expect(queue.waitFor(flow.tasks.merged.id, { "interval": 5 })).resolves.toBe("AB");
+            expect(executedNames).toEqual(["b", "a", "merged"]);
+
+            const flowInfo = await queue.getFlow(flow.id);
+            expect(flowInfo?.status).toBe("succeeded");
+            expect(Object.keys(flowInfo?.tasks ?? {}).sort()).toEqual(["a", "b", "merged"]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should cancel dependents of a failed task, unless failure policy is continue", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            },
+            "storage": createStorage()
+        });
+
+        queue.register({
+            "a": async () => {
+                throw new Error("a failed");
+            },
+            "b": async ({ parentResults }) => {
+                return parentResults;
+            }
+        });
+
+        await queue.start();
+        try {
+            const tasks: IQueueFlow["tasks"] = {
+                "a": {
+                    "key": "a"
+                },
+                "b": {
+                    "dependsOn": ["a"],
+                    "key": "b"
+                }
+            };
+
+            const cancelledFlow = await queue.enqueueFlow({
+                "tasks": tasks
+            });
+
+            await expect(queue.waitFor(cancelledFlow.tasks.b.id, { "interval": 5 })).rejects.toThrow("has been cancelled");
+            expect((await queue.getFlow(cancelledFlow.id))?.status).toBe("failed");
+
+            const continuedFlow = await queue.enqueueFlow({
+                "failurePolicy": "continue",
+                "tasks": tasks
+            });
+
+            // failed parents have no results
+            await expect(queue.waitFor(continuedFlow.tasks.b.id, { "interval": 5 })).resolves.toEqual({});
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should run a requeued flow task with the results of its parents", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            },
+            "storage": createStorage()
+        });
+
+        let shouldFail = true;
+        queue.register({
+            "a": async () => {
+                return 1;
+            },
+            "b": async ({ parentResults }) => {
+                if (shouldFail) {
+                    throw new Error("b failed");
+                }
+
+                return parentResults!.a + 1;
+            }
+        });
+
+        await queue.start();
+        try {
+            const flow = await queue.enqueueFlow({
+                "tasks": {
+                    "a": {
+                        "key": "a"
+                    },
+                    "b": {
+                        "dependsOn": ["a"],
+                        "key": "b"
+                    }
+                }
+            });
+
+            const bId = flow.tasks.b.id;
+            await expect(queue.waitFor(bId, { "interval": 5 })).rejects.toThrow("b failed");
+            expect((await queue.getFlow(flow.id))?.status).toBe("failed");
+
+            shouldFail = false;
+            await queue.requeueDeadLetterTask(bId);
+
+            await expect(queue.waitFor(bId, { "interval": 5, "timeout": 2000 })).resolves.toBe(2);
+            expect((await queue.getFlow(flow.id))?.status).toBe("succeeded");
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
+
+describe("Queue.enqueueFlow()", () => {
+    it("should reject flows, if storage cannot enqueue all tasks at once", async () => {
+        const storage = new MemoryQueueStorage();
+        (storage as any).enqueueTasks = undefined;
+
+        const queue = new Queue({ storage });
+        queue.register({
+            "a": async () => { },
+            "b": async () => { }
+        });
+
+        await expect(queue.enqueueFlow({
+            "tasks": {
+                "a": {
+                    "key": "a"
+                },
+                "b": {
+                    "dependsOn": ["a"],
+                    "key": "b"
+                }
+            }
+        })).rejects.toThrow("Storage does not support flows");
+
+        expect((await queue.getStats()).byStatus.queued).toBe(0);
+    });
+
+    it("should reject invalid flows", async () => {
+        const queue = new Queue();
+        queue.register({
+            "a": async () => { }
+        });
+
+        try {
+            await expect(queue.enqueueFlow({
+                "tasks": {}
+            })).rejects.toThrow("at least one task");
+            await expect(queue.enqueueFlow({
+                "tasks": {
+                    "a": {
+                        "dependsOn": ["b"],
+                        "key": "a"
+                    }
+                }
+            })).rejects.toThrow("depends on unknown task b");
+            await expect(queue.enqueueFlow({
+                "tasks": {
+                    "a": {
+                        "idempotencyKey": "foo",
+                        "key": "a"
+                    }
+                }
+            })).rejects.toThrow(TypeError);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,189 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MemoryQueueStorage, Queue, SqliteQueueStorage } from "..";
+
+describe("idempotency", () => {
+    it("should not enqueue duplicates of active and recently finished tasks", async () => {
+        const queue = new Queue({
+            "storage": new MemoryQueueStorage({
+                "idempotencyRetention": 50
+            })
+        });
+
+        queue.register({
+            "bar": async () => { },
+            "foo": async () => {
+                return 42;
+            }
+        });
+
+        await queue.start();
+        try {
+            queue.pause("foo");
+
+            const { id } = await queue.enqueue("foo", {
+                "idempotencyKey": "baz"
+            });
+
+            // queued
+            await expect(queue.enqueue("foo", {
+                "idempotencyKey": "baz"
+            })).resolves.toEqual({
+                id,
+                "isDuplicate": true
+            });
+            // unique per task key
+            await expect(queue.enqueue("bar", {
+                "idempotencyKey": "baz"
+            })).resolves.not.toHaveProperty("isDuplicate");
+
+            queue.resume("foo");
+            await queue.waitFor(id, { "interval": 5 });
+
+            // finished within retention
+            await expect(queue.enqueue("foo", {
+                "idempotencyKey": "baz"
+            })).resolves.toEqual({
+                id,
+                "isDuplicate": true
+            });
+
+            await new Promise((resolve) => {
+                setTimeout(resolve, 100);
+            });
+
+            const context = await queue.enqueue("foo", {
+                "idempotencyKey": "baz"
+            });
+            expect(context.isDuplicate).toBeFalsy();
+            expect(context.id).not.toBe(id);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should reject idempotency keys, which are no strings", async () => {
+        const queue = new Queue();
+
+        queue.register({
+            "foo": async () => { }
+        });
+
+        try {
+            await expect(queue.enqueue("foo", {
+                "idempotencyKey": 42 as any
+            })).rejects.toThrow(TypeError);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
+
+describe("idempotency with SqliteQueueStorage", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "egomobile-queue-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { "force": true, "recursive": true });
+    });
+
+    function createQueue(idempotencyRetention: number) {
+        const queue = new Queue({
+            "storage": new SqliteQueueStorage({
+                "file": path.join(dir, "queue.db"),
+                idempotencyRetention,
+                "pollInterval": 10
+            })
+        });
+
+        queue.register({
+            "foo": async () => {
+                return 42;
+            }
+        });
+
+        return queue;
+    }
+
+    it("should reject duplicates of tasks, which have been finished by another instance", async () => {
+        const queue1 = createQueue(60000);
+        const queue2 = createQueue(60000);
+
+        await queue1.start();
+        await queue2.start();
+        try {
+            const { id } = await queue1.enqueue("foo", {
+                "idempotencyKey": "bar"
+            });
+
+            await expect(queue1.waitFor(id, { "interval": 5 })).resolves.toBe(42);
+
+            await expect(queue2.enqueue("foo", {
+                "idempotencyKey": "bar"
+            })).resolves.toEqual({
+                id,
+                "isDuplicate": true
+            });
+
+            // idempotency keys are unique per task key
+            await expect(queue2.enqueue("foo", {
+                "idempotencyKey": "baz"
+            })).resolves.not.toHaveProperty("isDuplicate");
+        }
+        finally {
+            await queue2.dispose();
+            await queue1.dispose();
+        }
+    });
+
+    it("should enqueue a task again, after the idempotency retention has been elapsed", async () => {
+        const queue1 = createQueue(50);
+        const queue2 = createQueue(50);
+
+        await queue1.start();
+        await queue2.start();
+        try {
+            const { id } = await queue1.enqueue("foo", {
+                "idempotencyKey": "bar"
+            });
+
+            await queue1.waitFor(id, { "interval": 5 });
+
+            await new Promise((resolve) => {
+                setTimeout(resolve, 100);
+            });
+
+            const context = await queue2.enqueue("foo", {
+                "idempotencyKey": "bar"
+            });
+
+            expect(context.isDuplicate).toBeFalsy();
+            expect(context.id).not.toBe(id);
+        }
+        finally {
+            await queue2.dispose();
+            await queue1.dispose();
+        }
+    });
+});
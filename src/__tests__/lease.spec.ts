@@ -0,0 +1,138 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileQueueStorage, IQueueTaskEventContext, Queue, QueueTaskStalledError, SqliteQueueStorage } from "..";
+
+function waitUntil(condition: () => boolean): Promise<void> {
+    return new Promise((resolve) => {
+        const check = () => {
+            if (condition()) {
+                resolve();
+            }
+            else {
+                setTimeout(check, 5);
+            }
+        };
+
+        check();
+    });
+}
+
+describe("leases", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "egomobile-queue-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { "force": true, "recursive": true });
+    });
+
+    async function runStalledTask(
+        maxStalledCount: number,
+        action: (queue: Queue, id: any, succeeded: Promise<IQueueTaskEventContext>) => Promise<void>
+    ) {
+        const file = path.join(dir, "queue.db");
+
+        // does not renew its leases, like a crashed process
+        const queue1 = new Queue({
+            "storage": new SqliteQueueStorage({
+                file,
+                "heartbeatInterval": 60000,
+                "leaseDuration": 50,
+                "pollInterval": 0
+            })
+        });
+        let isStarted = false;
+        queue1.register({
+            "foo": async ({ signal }) => {
+                isStarted = true;
+
+                await waitUntil(() => {
+                    return signal.aborted;
+                });
+            }
+        });
+
+        const queue2 = new Queue({
+            "storage": new SqliteQueueStorage({
+                file,
+                maxStalledCount,
+                "pollInterval": 10
+            })
+        });
+        queue2.register({
+            "foo": async () => {
+                return "queue2";
+            }
+        });
+
+        await queue1.start();
+        try {
+            const { id } = await queue1.enqueue("foo");
+
+            await waitUntil(() => {
+                return isStarted;
+            });
+
+            const stalled = queue2.once("stalled");
+            const succeeded = queue2.once("succeeded");
+
+            await queue2.start();
+            try {
+                expect((await stalled).id).toBe(id);
+
+                await action(queue2, id, succeeded);
+            }
+            finally {
+                await queue2.dispose();
+            }
+        }
+        finally {
+            await queue1.dispose();
+        }
+    }
+
+    it("should requeue a task, whose lease has expired, in another instance", async () => {
+        await runStalledTask(1, async (queue, id, succeeded) => {
+            const { result, "id": succeededId } = await succeeded;
+
+            expect(succeededId).toBe(id);
+            expect(result).toBe("queue2");
+        });
+    });
+
+    it("should fail a task, which stalled too often", async () => {
+        await runStalledTask(0, async (queue, id) => {
+            const deadLetterTask = await queue.getDeadLetterTask(id);
+
+            expect(deadLetterTask?.lastError).toBeInstanceOf(QueueTaskStalledError);
+            expect(deadLetterTask?.lastError.stalledCount).toBe(1);
+        });
+    });
+
+    it("should not accept leases for a FileQueueStorage", () => {
+        expect(() => {
+            return new FileQueueStorage({
+                "file": path.join(dir, "queue.journal"),
+                "leaseDuration": 1000
+            } as any);
+        }).toThrow(TypeError);
+    });
+});
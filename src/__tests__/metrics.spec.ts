@@ -0,0 +1,155 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { MemoryQueueStorage, Queue } from "..";
+import { createThroughputCounter } from "../utils/metrics";
+
+describe("throughput counter", () => {
+    it("should count finished attempts of the current window only", () => {
+        const counter = createThroughputCounter(10000);
+
+        const startTime = 1000000;
+        counter.add(startTime, false);
+        counter.add(startTime + 500, true);
+        counter.add(startTime + 5000, false);
+
+        expect(counter.toStats(startTime + 6000)).toEqual({
+            "failed": 1,
+            "failureRate": 1 / 3,
+            "interval": 10000,
+            "perSecond": 0.3,
+            "succeeded": 2
+        });
+
+        // first second has left the window
+        expect(counter.toStats(startTime + 11000)).toMatchObject({
+            "failed": 0,
+            "succeeded": 1
+        });
+
+        expect(counter.toStats(startTime + 20000)).toMatchObject({
+            "failed": 0,
+            "failureRate": 0,
+            "succeeded": 0
+        });
+    });
+
+    it("should handle many attempts in linear time", () => {
+        const counter = createThroughputCounter(60000);
+
+        const startTime = 1000000;
+        const timeBefore = Date.now();
+        for (let i = 0; i < 200000; i++) {
+            counter.add(startTime + i, false);
+        }
+
+        expect(counter.toStats(startTime + 200000).succeeded).toBe(60000);
+        expect(Date.now() - timeBefore).toBeLessThan(2000);
+    });
+});
+
+describe("statistics", () => {
+    async function createQueue() {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            },
+            "storage": new MemoryQueueStorage({
+                "histogramBuckets": [10000]
+            })
+        });
+
+        queue.register({
+            "bar": async () => {
+                throw new Error("bar failed");
+            },
+            "foo": async () => {
+                return 42;
+            }
+        });
+
+        await queue.start();
+
+        const { "id": fooId } = await queue.enqueue("foo");
+        await queue.waitFor(fooId, { "interval": 5 });
+
+        const { "id": barId } = await queue.enqueue("bar");
+        await queue.waitFor(barId, { "interval": 5 }).catch(() => { });
+
+        queue.pause("foo");
+        await queue.enqueue("foo");
+
+        return queue;
+    }
+
+    it("should count tasks by key and status", async () => {
+        const queue = await createQueue();
+        try {
+            const stats = await queue.getStats();
+
+            expect(stats.byStatus).toMatchObject({
+                "failed": 1,
+                "queued": 1,
+                "running": 0,
+                "succeeded": 1
+            });
+            expect(stats.inFlight).toBe(0);
+            expect(stats.throughput).toMatchObject({
+                "failed": 1,
+                "failureRate": 0.5,
+                "succeeded": 1
+            });
+
+            expect(stats.byKey.foo.byStatus).toMatchObject({
+                "queued": 1,
+                "succeeded": 1
+            });
+            expect(stats.byKey.foo.duration.count).toBe(1);
+            expect(stats.byKey.foo.duration.buckets).toEqual([{
+                "count": 1,
+                "le": 10000
+            }]);
+            expect(typeof stats.byKey.foo.oldestWaitingAge).toBe("number");
+
+            expect(stats.byKey.bar.throughput.failureRate).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should export the statistics in Prometheus text format", async () => {
+        const queue = await createQueue();
+        try {
+            const metrics = (await queue.getMetrics({
+                "prefix": "my_queue"
+            })).split("\n");
+
+            expect(metrics).toContain("# TYPE my_queue_tasks gauge");
+            expect(metrics).toContain("my_queue_tasks{key=\"foo\",status=\"succeeded\"} 1");
+            expect(metrics).toContain("my_queue_failure_rate{key=\"bar\"} 1");
+            expect(metrics).toContain("# TYPE my_queue_task_duration_seconds histogram");
+            expect(metrics).toContain("my_queue_task_duration_seconds_bucket{key=\"foo\",le=\"10\"} 1");
+            expect(metrics).toContain("my_queue_task_duration_seconds_bucket{key=\"foo\",le=\"+Inf\"} 1");
+
+            await expect(queue.getMetrics({
+                "prefix": "my-queue"
+            })).rejects.toThrow(TypeError);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,122 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue } from "..";
+
+describe("middlewares", () => {
+    it("should execute middlewares of queue and task around the task in order", async () => {
+        const queue = new Queue();
+
+        const calls: string[] = [];
+        queue.use(async (context, next) => {
+            calls.push("queue:before");
+            try {
+                return (await next()) + 1;
+            }
+            finally {
+                calls.push("queue:after");
+            }
+        });
+
+        queue.register({
+            "foo": {
+                "action": async ({ data }) => {
+                    calls.push("task");
+
+                    return data.value;
+                },
+                "middlewares": [
+                    async (context, next) => {
+                        calls.push("task:before");
+
+                        // custom context for the task
+                        const result = await next({
+                            ...context,
+                            "data": {
+                                "value": context.data.value * 2
+                            }
+                        });
+
+                        calls.push("task:after");
+
+                        return result;
+                    }
+                ]
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo", {
+                "data": {
+                    "value": 20
+                }
+            });
+
+            await expect(queue.waitFor(id, { "interval": 5 })).resolves.toBe(41);
+
+            expect(calls).toEqual([
+                "queue:before",
+                "task:before",
+                "task",
+                "task:after",
+                "queue:after"
+            ]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should fail a task, if next() is called multiple times", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            }
+        });
+
+        let executionCount = 0;
+        queue.use(async (context, next) => {
+            await next();
+
+            return next();
+        });
+
+        queue.register({
+            "foo": async () => {
+                ++executionCount;
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo");
+
+            await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("next() has been called multiple times");
+            expect(executionCount).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should reject middlewares, which are no functions", () => {
+        const queue = new Queue();
+
+        expect(() => {
+            queue.use("foo" as any);
+        }).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,131 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { IQueueStorage, MemoryQueueStorage, Queue, SqliteQueueStorage } from "..";
+
+const storageFactories: [string, () => IQueueStorage][] = [
+    ["MemoryQueueStorage", () => {
+        return new MemoryQueueStorage();
+    }],
+    ["SqliteQueueStorage", () => {
+        return new SqliteQueueStorage({
+            "file": ":memory:",
+            "pollInterval": 10
+        });
+    }]
+];
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+        setTimeout(resolve, ms);
+    });
+}
+
+describe.each(storageFactories)("pausing with %s", (_, createStorage) => {
+    it("should hold tasks enqueued while stopped until start", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        const executedNames: string[] = [];
+        queue.register({
+            "foo": async ({ data }) => {
+                executedNames.push(data.name);
+            }
+        });
+
+        try {
+            const { "id": id1 } = await queue.enqueue("foo", {
+                "data": { "name": "task1" }
+            });
+            const { "id": id2 } = await queue.enqueue("foo", {
+                "data": { "name": "task2" }
+            });
+
+            await sleep(50);
+
+            expect(executedNames).toEqual([]);
+            expect((await queue.getTask(id1))?.status).toBe("queued");
+
+            await queue.start();
+
+            await queue.waitFor(id1, { "interval": 5 });
+            await queue.waitFor(id2, { "interval": 5 });
+
+            expect(executedNames.sort()).toEqual(["task1", "task2"]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should hold tasks of paused keys only", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        const executedKeys: string[] = [];
+        queue.register({
+            "bar": async () => {
+                executedKeys.push("bar");
+            },
+            "foo": async () => {
+                executedKeys.push("foo");
+            }
+        });
+
+        try {
+            await queue.start();
+
+            expect(queue.pause("foo")).toBe(queue);
+            expect(queue.isPaused("foo")).toBe(true);
+            expect(queue.isPaused("bar")).toBe(false);
+
+            const { "id": fooId } = await queue.enqueue("foo");
+            const { "id": barId } = await queue.enqueue("bar");
+
+            await queue.waitFor(barId, { "interval": 5 });
+            await sleep(50);
+
+            expect(executedKeys).toEqual(["bar"]);
+            expect((await queue.getTask(fooId))?.status).toBe("queued");
+
+            expect(queue.resume("foo")).toBe(queue);
+            expect(queue.isPaused("foo")).toBe(false);
+
+            await queue.waitFor(fooId, { "interval": 5 });
+
+            expect(executedKeys).toEqual(["bar", "foo"]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should throw on pausing an unknown key", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        try {
+            expect(() => {
+                queue.pause("foo");
+            }).toThrow("No task found for key foo");
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
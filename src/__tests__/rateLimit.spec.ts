@@ -0,0 +1,135 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue } from "..";
+import { createRateLimiter } from "../utils/rateLimit";
+
+describe("rate limiters", () => {
+    it("should start at most limit tasks within any interval with a sliding window", () => {
+        const limiter = createRateLimiter({
+            "interval": 1000,
+            "limit": 2
+        });
+
+        limiter.take(0);
+        limiter.take(400);
+
+        expect(limiter.getAvailable(500)).toBe(0);
+        expect(limiter.getNextAvailableAt(500)).toBe(1000);
+
+        expect(limiter.getAvailable(1000)).toBe(1);
+        expect(limiter.getAvailable(1400)).toBe(2);
+    });
+
+    it("should refill tokens continuously with a token bucket", () => {
+        const limiter = createRateLimiter({
+            "interval": 1000,
+            "limit": 4,
+            "strategy": "token-bucket"
+        });
+
+        // not before the bucket has been created
+        const startTime = Date.now();
+
+        for (let i = 0; i < 4; i++) {
+            limiter.take(startTime);
+        }
+
+        expect(limiter.getAvailable(startTime)).toBe(0);
+        expect(limiter.getNextAvailableAt(startTime)).toBe(startTime + 250);
+        expect(limiter.getAvailable(startTime + 500)).toBe(2);
+        // not more than limit
+        expect(limiter.getAvailable(startTime + 5000)).toBe(4);
+    });
+});
+
+describe("rate limits", () => {
+    it("should defer tasks of a key, which exceed its limit", async () => {
+        const queue = new Queue();
+
+        const startTimes: Record<string, number[]> = {
+            "bar": [],
+            "foo": []
+        };
+        queue.register({
+            "bar": async () => {
+                startTimes.bar.push(Date.now());
+            },
+            "foo": {
+                "action": async () => {
+                    startTimes.foo.push(Date.now());
+                },
+                "rateLimit": {
+                    "interval": 100,
+                    "limit": 2
+                }
+            }
+        });
+
+        await queue.start();
+        try {
+            const startTime = Date.now();
+
+            const contexts = await queue.enqueueMany([
+                { "key": "foo" },
+                { "key": "foo" },
+                { "key": "foo" },
+                { "key": "bar" },
+                { "key": "bar" },
+                { "key": "bar" }
+            ]);
+            for (const { id } of contexts) {
+                await queue.waitFor(id, { "interval": 5 });
+            }
+
+            const fooDelays = startTimes.foo.map((t) => {
+                return t - startTime;
+            });
+            expect(fooDelays[1]).toBeLessThan(90);
+            expect(fooDelays[2]).toBeGreaterThanOrEqual(90);
+
+            // other keys are not limited
+            expect(Math.max(...startTimes.bar) - startTime).toBeLessThan(90);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should reject invalid limits", () => {
+        expect(() => {
+            return new Queue({
+                "rateLimit": {
+                    "interval": 0,
+                    "limit": 1
+                }
+            });
+        }).toThrow(TypeError);
+
+        const queue = new Queue();
+        expect(() => {
+            queue.register({
+                "foo": {
+                    "action": async () => { },
+                    "rateLimit": {
+                        "interval": 1000,
+                        "limit": 1,
+                        "strategy": "fixed-window" as any
+                    }
+                }
+            });
+        }).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,76 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileQueueStorage, Queue, QueueUnknownTaskKeyError } from "..";
+
+describe("restored tasks", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "egomobile-queue-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { "force": true, "recursive": true });
+    });
+
+    it("should fail a restored task, whose key is not registered anymore", async () => {
+        const file = path.join(dir, "queue.jsonl");
+
+        const queue1 = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            },
+            "storage": new FileQueueStorage({
+                file
+            })
+        });
+        queue1.register({
+            "foo": async () => { }
+        });
+
+        // not started, so the task stays queued
+        const { id } = await queue1.enqueue("foo");
+        await queue1.dispose();
+
+        const queue2 = new Queue({
+            "storage": new FileQueueStorage({
+                file
+            })
+        });
+        queue2.register({
+            "bar": async () => { }
+        });
+
+        await queue2.start();
+        try {
+            const error = await queue2.waitFor(id, { "interval": 5 }).catch((error) => {
+                return error;
+            });
+
+            expect(error).toBeInstanceOf(QueueUnknownTaskKeyError);
+            expect(error.taskKey).toBe("foo");
+
+            const deadLetterTask = await queue2.getDeadLetterTask(id);
+            expect(deadLetterTask?.key).toBe("foo");
+        }
+        finally {
+            await queue2.dispose();
+        }
+    });
+});
@@ -0,0 +1,106 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue } from "..";
+
+describe("retry policy", () => {
+    it("should retry a failing task until maxAttempts is reached", async () => {
+        const queue = new Queue({
+            "retry": {
+                "backoff": "fixed",
+                "delay": 1,
+                "maxAttempts": 3
+            }
+        });
+
+        let attempts = 0;
+        queue.register({
+            "flaky": async () => {
+                ++attempts;
+
+                throw new Error("flaky");
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("flaky");
+
+            await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("flaky");
+
+            expect(attempts).toBe(3);
+
+            const deadLetterTask = await queue.getDeadLetterTask(id);
+            expect(deadLetterTask?.attempts.length).toBe(3);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should not retry errors, which are not retryable", async () => {
+        const queue = new Queue({
+            "retry": {
+                "delay": 1,
+                "isRetryable": (error: any) => {
+                    return error.message !== "fatal";
+                },
+                "maxAttempts": 5
+            }
+        });
+
+        let attempts = 0;
+        queue.register({
+            "fatal": async () => {
+                ++attempts;
+
+                throw new Error("fatal");
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("fatal");
+
+            await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("fatal");
+
+            expect(attempts).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it.each([
+        [{ "backoff": "random" }, "options.retry.backoff"],
+        [{ "delay": -1 }, "options.retry.delay"],
+        [{ "isRetryable": true }, "options.retry.isRetryable"],
+        [{ "jitter": 2 }, "options.retry.jitter"],
+        [{ "maxAttempts": 0 }, "options.retry.maxAttempts"],
+        [{ "maxAttempts": 1.5 }, "options.retry.maxAttempts"],
+        [{ "maxDelay": -1 }, "options.retry.maxDelay"]
+    ])("should reject invalid retry policy %j", async (retry, message) => {
+        expect(() => {
+            return new Queue({ "retry": retry as any });
+        }).toThrow(message);
+
+        const queue = new Queue();
+        queue.register({
+            "task": async () => { }
+        });
+
+        await expect(queue.enqueue("task", { "retry": retry as any })).rejects.toThrow(message);
+    });
+});
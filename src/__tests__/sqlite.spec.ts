@@ -0,0 +1,147 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { IMemoryQueueStorageTask, Queue, SqliteQueueStorage } from "..";
+
+describe("polling of SqliteQueueStorage", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "egomobile-queue-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { "force": true, "recursive": true });
+    });
+
+    it("should only load as many tasks of other instances, as slots are free, by priority", async () => {
+        const file = path.join(dir, "queue.db");
+
+        const executedPriorities: number[] = [];
+
+        const storage1 = new SqliteQueueStorage({
+            file,
+            "pollInterval": 10
+        });
+        const queue1 = new Queue({
+            "concurrency": 2,
+            "storage": storage1
+        });
+        queue1.register({
+            "foo": async ({ data }) => {
+                executedPriorities.push(data.priority);
+            }
+        });
+
+        // second instance, which only enqueues
+        const storage2 = new SqliteQueueStorage({
+            file,
+            "pollInterval": 10
+        });
+
+        const restoredCounts: number[] = [];
+        const restoreTasks = (storage1 as any).restoreTasks.bind(storage1);
+        jest.spyOn(storage1 as any, "restoreTasks").mockImplementation((tasks: any) => {
+            restoredCounts.push((tasks as IMemoryQueueStorageTask[]).length);
+
+            restoreTasks(tasks);
+        });
+
+        await queue1.start();
+        try {
+            const priorities = [3, 1, 4, 1, 5, 9, 2, 6, 5, 3, 5, 8, 9, 7, 9, 3, 2, 3, 8, 4];
+
+            // all in one transaction
+            await storage2.enqueueTasks(priorities.map((priority) => {
+                return {
+                    "data": {
+                        priority
+                    },
+                    "key": "foo",
+                    priority
+                };
+            }));
+
+            // tasks are unknown by first instance, until they have been polled
+            const startTime = Date.now();
+            while (executedPriorities.length < priorities.length && Date.now() - startTime < 5000) {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 5);
+                });
+            }
+
+            expect(Math.max(...restoredCounts)).toBeLessThanOrEqual(2);
+            expect(executedPriorities).toEqual([...priorities].sort((a, b) => {
+                return b - a;
+            }));
+        }
+        finally {
+            await queue1.dispose();
+            await storage2.dispose();
+        }
+    });
+
+    it("should not load tasks, if there are no free slots", async () => {
+        const storage = new SqliteQueueStorage({
+            "file": path.join(dir, "queue.db"),
+            "pollInterval": 10
+        });
+        const queue = new Queue({
+            "concurrency": 1,
+            storage
+        });
+
+        let release!: () => void;
+        queue.register({
+            "foo": async () => {
+                await new Promise<void>((resolve) => {
+                    release = resolve;
+                });
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo");
+
+            while (!release) {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 5);
+                });
+            }
+
+            const restoreTasks = jest.spyOn(storage as any, "restoreTasks");
+            const prepare = jest.spyOn(storage.database, "prepare");
+
+            await new Promise((resolve) => {
+                setTimeout(resolve, 100);
+            });
+
+            expect(prepare.mock.calls.some(([sql]) => {
+                return sql.includes("due_at <= ?");
+            })).toBe(false);
+            expect(restoreTasks).toHaveBeenCalled();
+
+            release();
+            await queue.waitFor(id, { "interval": 5 });
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,113 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { MemoryQueueStorage, Queue } from "..";
+
+describe("task status", () => {
+    it("should return status and result of a task", async () => {
+        const queue = new Queue();
+
+        let release!: () => void;
+        queue.register({
+            "foo": async ({ data }) => {
+                await new Promise<void>((resolve) => {
+                    release = resolve;
+                });
+
+                return data.value * 2;
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo", {
+                "data": {
+                    "value": 21
+                }
+            });
+
+            while (!release) {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 5);
+                });
+            }
+
+            const runningTask = await queue.getTask(id);
+            expect(runningTask).toMatchObject({
+                "data": {
+                    "value": 21
+                },
+                id,
+                "key": "foo",
+                "status": "running"
+            });
+            expect(runningTask?.startedAt).toBeInstanceOf(Date);
+
+            release();
+
+            await expect(queue.waitFor(id, { "interval": 5 })).resolves.toBe(42);
+
+            const finishedTask = await queue.getTask(id);
+            expect(finishedTask).toMatchObject({
+                "result": 42,
+                "status": "succeeded"
+            });
+            expect(finishedTask?.finishedAt).toBeInstanceOf(Date);
+            expect(finishedTask?.attempts.length).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should forget finished tasks after their retention", async () => {
+        const queue = new Queue({
+            "storage": new MemoryQueueStorage({
+                "retention": 50
+            })
+        });
+
+        queue.register({
+            "foo": async () => { }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo");
+            await queue.waitFor(id, { "interval": 5 });
+
+            await new Promise((resolve) => {
+                setTimeout(resolve, 100);
+            });
+
+            await expect(queue.getTask(id)).resolves.toBeFalsy();
+            await expect(queue.waitFor(id)).rejects.toThrow("not found");
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should return nothing for unknown tasks", async () => {
+        const queue = new Queue();
+
+        try {
+            await expect(queue.getTask("foo")).resolves.toBeFalsy();
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
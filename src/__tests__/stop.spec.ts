@@ -0,0 +1,148 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { IQueueStorage, MemoryQueueStorage, Queue, SqliteQueueStorage } from "..";
+
+const storageFactories: [string, () => IQueueStorage][] = [
+    ["MemoryQueueStorage", () => {
+        return new MemoryQueueStorage();
+    }],
+    ["SqliteQueueStorage", () => {
+        return new SqliteQueueStorage({
+            "file": ":memory:",
+            "pollInterval": 10
+        });
+    }]
+];
+
+function waitUntil(condition: () => boolean): Promise<void> {
+    return new Promise((resolve) => {
+        const check = () => {
+            if (condition()) {
+                resolve();
+            }
+            else {
+                setTimeout(check, 5);
+            }
+        };
+
+        check();
+    });
+}
+
+describe.each(storageFactories)("graceful shutdown with %s", (_, createStorage) => {
+    it("should wait for running tasks, but not start queued ones", async () => {
+        const queue = new Queue({
+            "concurrency": 1,
+            "storage": createStorage()
+        });
+
+        const executedNames: string[] = [];
+        queue.register({
+            "foo": async ({ data }) => {
+                executedNames.push(data.name);
+
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 50);
+                });
+
+                return data.name;
+            }
+        });
+
+        await queue.start();
+        try {
+            const { "id": id1 } = await queue.enqueue("foo", {
+                "data": {
+                    "name": "a"
+                }
+            });
+            const { "id": id2 } = await queue.enqueue("foo", {
+                "data": {
+                    "name": "b"
+                }
+            });
+
+            await waitUntil(() => {
+                return executedNames.length > 0;
+            });
+
+            const drained = queue.once("drained");
+
+            const result = await queue.stop({
+                "drain": true
+            });
+
+            expect(result?.interruptedTasks).toEqual([]);
+            expect((await drained).interruptedTasks).toEqual([]);
+
+            expect((await queue.getTask(id1))?.status).toBe("succeeded");
+            expect((await queue.getTask(id2))?.status).toBe("stopped");
+            expect(executedNames).toEqual(["a"]);
+
+            await queue.start();
+
+            await expect(queue.waitFor(id2, { "interval": 5 })).resolves.toBe("b");
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should interrupt running tasks after the timeout", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        let isStarted = false;
+        let wasAborted = false;
+        queue.register({
+            "foo": async ({ signal }) => {
+                isStarted = true;
+
+                await waitUntil(() => {
+                    return signal.aborted;
+                });
+
+                wasAborted = true;
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo");
+
+            await waitUntil(() => {
+                return isStarted;
+            });
+
+            const startTime = Date.now();
+            const result = await queue.stop({
+                "drain": true,
+                "timeout": 50
+            });
+
+            expect(Date.now() - startTime).toBeGreaterThanOrEqual(40);
+            expect(result?.interruptedTasks).toEqual([{ id }]);
+
+            await waitUntil(() => {
+                return wasAborted;
+            });
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,180 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { MemoryQueueStorage, Queue } from "..";
+
+class LifecycleStorage extends MemoryQueueStorage {
+    public disposeCount = 0;
+    public initCount = 0;
+
+    public override async dispose(): Promise<void> {
+        ++this.disposeCount;
+
+        await super.dispose();
+    }
+
+    public async init(): Promise<void> {
+        ++this.initCount;
+    }
+}
+
+async function runTask(queue: Queue): Promise<void> {
+    queue.register({
+        "foo": async () => {
+            return 42;
+        }
+    });
+
+    await queue.start();
+
+    const { id } = await queue.enqueue("foo");
+    await queue.waitFor(id, { "interval": 5 });
+}
+
+describe("storage option", () => {
+    it("should use a storage instance", async () => {
+        const storage = new LifecycleStorage();
+
+        const queue = new Queue({
+            storage
+        });
+        try {
+            await runTask(queue);
+
+            expect(storage.initCount).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+
+        expect(storage.disposeCount).toBe(1);
+    });
+
+    it("should invoke a sync provider on start", async () => {
+        const storage = new LifecycleStorage();
+        const provider = jest.fn(() => {
+            return storage;
+        });
+
+        const queue = new Queue({
+            "storage": provider
+        });
+        try {
+            expect(provider).not.toHaveBeenCalled();
+
+            await runTask(queue);
+
+            expect(provider).toHaveBeenCalledTimes(1);
+            expect(storage.initCount).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+
+        expect(storage.disposeCount).toBe(1);
+    });
+
+    it("should await an async provider before start", async () => {
+        const storage = new LifecycleStorage();
+        const provider = jest.fn(async () => {
+            await new Promise((resolve) => {
+                setTimeout(resolve, 20);
+            });
+
+            return storage;
+        });
+
+        const queue = new Queue({
+            "storage": provider
+        });
+        try {
+            expect(provider).not.toHaveBeenCalled();
+
+            await runTask(queue);
+
+            expect(provider).toHaveBeenCalledTimes(1);
+            expect(storage.initCount).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should reject start, if an async provider returns no object", async () => {
+        const queue = new Queue({
+            "storage": async () => {
+                return null as any;
+            }
+        });
+        try {
+            await expect(queue.start()).rejects.toThrow(TypeError);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should create an instance of a storage class", async () => {
+        const queue = new Queue({
+            "storageClass": LifecycleStorage,
+            "storageClassArgs": [{
+                "idempotencyRetention": 0
+            }]
+        });
+        try {
+            await runTask(queue);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should throw on invalid values", () => {
+        expect(() => {
+            new Queue({
+                "storage": "foo" as any
+            });
+        }).toThrow(TypeError);
+    });
+
+    it("should use a storage instance by one queue only", async () => {
+        const storage = new LifecycleStorage();
+
+        const queue1 = new Queue({
+            storage
+        });
+        try {
+            expect(() => {
+                new Queue({
+                    storage
+                });
+            }).toThrow("Storage is already used by another queue");
+        }
+        finally {
+            await queue1.dispose();
+        }
+
+        // detached by dispose()
+        const queue2 = new Queue({
+            storage
+        });
+        try {
+            await runTask(queue2);
+        }
+        finally {
+            await queue2.dispose();
+        }
+    });
+});
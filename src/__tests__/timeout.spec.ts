@@ -0,0 +1,97 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue, QueueTaskTimeoutError } from "..";
+
+describe("timeouts", () => {
+    it("should fail an attempt, which takes too long, and abort its signal", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            }
+        });
+
+        let wasAborted = false;
+        queue.register({
+            "foo": {
+                "action": async ({ signal }) => {
+                    while (!signal.aborted) {
+                        await new Promise((resolve) => {
+                            setTimeout(resolve, 5);
+                        });
+                    }
+
+                    wasAborted = true;
+                },
+                "timeout": 30
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo");
+
+            const error = await queue.waitFor(id, { "interval": 5 }).catch((error) => {
+                return error;
+            });
+
+            expect(error).toBeInstanceOf(QueueTaskTimeoutError);
+            expect(error.taskKey).toBe("foo");
+            expect(error.timeout).toBe(30);
+
+            while (!wasAborted) {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 5);
+                });
+            }
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should prefer the timeout of the enqueue options", async () => {
+        const queue = new Queue({
+            "retry": {
+                "maxAttempts": 1
+            }
+        });
+
+        queue.register({
+            "foo": {
+                "action": async () => {
+                    await new Promise((resolve) => {
+                        setTimeout(resolve, 50);
+                    });
+
+                    return 42;
+                },
+                "timeout": 10
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo", {
+                "timeout": 5000
+            });
+
+            await expect(queue.waitFor(id, { "interval": 5 })).resolves.toBe(42);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
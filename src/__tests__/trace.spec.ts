@@ -0,0 +1,130 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { IQueueTaskContext, IQueueTraceContext, Queue } from "..";
+
+const validTraceparent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+async function runTask(queue: Queue, enqueue: () => Promise<IQueueTaskContext>): Promise<IQueueTraceContext | null | undefined> {
+    let traceContext: IQueueTraceContext | null | undefined;
+    queue.register({
+        "foo": async () => {
+            traceContext = Queue.getTraceContext();
+        }
+    });
+
+    await queue.start();
+    try {
+        const { id } = await enqueue();
+
+        await queue.waitFor(id, { "interval": 5 });
+    }
+    finally {
+        await queue.dispose();
+    }
+
+    return traceContext;
+}
+
+describe("trace contexts", () => {
+    it("should propagate a valid traceparent of runWithTraceContext()", async () => {
+        const queue = new Queue();
+
+        const traceContext = await runTask(queue, () => {
+            return Queue.runWithTraceContext({
+                "traceparent": validTraceparent,
+                "tracestate": "foo=bar"
+            }, () => {
+                return queue.enqueue("foo");
+            });
+        });
+
+        expect(traceContext).toEqual({
+            "traceparent": validTraceparent,
+            "tracestate": "foo=bar"
+        });
+    });
+
+    it("should ignore an invalid traceparent of runWithTraceContext()", async () => {
+        const queue = new Queue();
+
+        const traceContext = await runTask(queue, () => {
+            return Queue.runWithTraceContext({
+                "metadata": {
+                    "requestId": "1"
+                },
+                "traceparent": "not-a-traceparent",
+                "tracestate": "foo=bar"
+            }, () => {
+                return queue.enqueue("foo");
+            });
+        });
+
+        expect(traceContext).toEqual({
+            "metadata": {
+                "requestId": "1"
+            }
+        });
+    });
+
+    it("should ignore an invalid traceparent of a custom capture()", async () => {
+        const queue = new Queue({
+            "tracing": {
+                "capture": () => {
+                    return {
+                        "traceparent": "00-xyz",
+                        "tracestate": "foo=bar"
+                    };
+                }
+            }
+        });
+
+        const traceContext = await runTask(queue, () => {
+            return queue.enqueue("foo");
+        });
+
+        expect(traceContext).toBeUndefined();
+    });
+
+    it("should keep a valid traceparent, if a later one is invalid", async () => {
+        const queue = new Queue({
+            "tracing": {
+                "capture": () => {
+                    return {
+                        "traceparent": validTraceparent
+                    };
+                }
+            }
+        });
+
+        const traceContext = await runTask(queue, () => {
+            return queue.enqueue("foo", {
+                "traceContext": {
+                    "traceparent": "invalid"
+                }
+            });
+        });
+
+        expect(traceContext).toEqual({
+            "traceparent": validTraceparent
+        });
+    });
+
+    it("should still reject a trace context, which is no object", () => {
+        expect(() => {
+            return Queue.runWithTraceContext("foo" as any, () => { });
+        }).toThrow(TypeError);
+    });
+});
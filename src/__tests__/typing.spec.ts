@@ -0,0 +1,79 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue } from "..";
+
+interface IMyTasks {
+    "optional": {
+        "foo"?: string;
+    };
+    "sendMail": {
+        "to": string;
+    };
+}
+
+describe("typed queues", () => {
+    it("should check keys and data at compile time", async () => {
+        const queue = new Queue<IMyTasks>();
+
+        const recipients: string[] = [];
+        queue.register({
+            "optional": async () => { },
+            "sendMail": async ({ data }) => {
+                // `data.to` is a string
+                recipients.push(data.to.toLowerCase());
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("sendMail", {
+                "data": {
+                    "to": "INFO@EXAMPLE.COM"
+                }
+            });
+            await queue.enqueue("optional");
+
+            await queue.waitFor(id, { "interval": 5 });
+
+            expect(recipients).toEqual(["info@example.com"]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should reject invalid keys and data at compile time", () => {
+        const queue = new Queue<IMyTasks>();
+
+        // is only type-checked
+        const enqueueInvalidTasks = async () => {
+            // @ts-expect-error unknown key
+            await queue.enqueue("unknown");
+            // @ts-expect-error data is required
+            await queue.enqueue("sendMail");
+            // @ts-expect-error invalid data
+            await queue.enqueue("sendMail", { "data": { "to": 42 } });
+
+            queue.registerRecurring({
+                "interval": 1000,
+                // @ts-expect-error unknown key
+                "key": "unknown"
+            });
+        };
+
+        expect(typeof enqueueInvalidTasks).toBe("function");
+    });
+});
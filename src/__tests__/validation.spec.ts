@@ -0,0 +1,110 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { Queue, QueueValidationError } from "..";
+
+describe("validation", () => {
+    it("should reject data, which is invalid for a validator function", async () => {
+        const queue = new Queue();
+
+        queue.register({
+            "foo": {
+                "action": async () => { },
+                "validator": async (data: any) => {
+                    return typeof data?.to === "string";
+                }
+            }
+        });
+
+        try {
+            await expect(queue.enqueue("foo", {
+                "data": {
+                    "to": "info@example.com"
+                }
+            })).resolves.toHaveProperty("id");
+
+            const error = await queue.enqueue("foo", {
+                "data": {
+                    "to": 42
+                }
+            }).catch((error) => {
+                return error;
+            });
+
+            expect(error).toBeInstanceOf(QueueValidationError);
+            expect(error.taskKey).toBe("foo");
+            expect(error.data).toEqual({ "to": 42 });
+
+            // invalid tasks are not enqueued
+            expect((await queue.getStats()).byStatus.queued).toBe(1);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should execute tasks with the data, which has been normalized by a schema", async () => {
+        const queue = new Queue();
+
+        let executedData: any;
+        queue.register({
+            "foo": {
+                "action": async ({ data }) => {
+                    executedData = data;
+                },
+                "validator": {
+                    "parse": (data: any) => {
+                        if (typeof data?.count !== "string" || isNaN(Number(data.count))) {
+                            throw Object.assign(new Error("count must be numeric"), {
+                                "issues": [{ "path": ["count"] }]
+                            });
+                        }
+
+                        return {
+                            "count": Number(data.count)
+                        };
+                    }
+                }
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo", {
+                "data": {
+                    "count": "42"
+                }
+            });
+            await queue.waitFor(id, { "interval": 5 });
+
+            expect(executedData).toEqual({ "count": 42 });
+
+            const error = await queue.enqueue("foo", {
+                "data": {
+                    "count": "abc"
+                }
+            }).catch((error) => {
+                return error;
+            });
+
+            expect(error).toBeInstanceOf(QueueValidationError);
+            expect(error.message).toBe("Invalid data for task foo: count must be numeric");
+            expect(error.issues).toEqual([{ "path": ["count"] }]);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
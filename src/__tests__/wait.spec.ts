@@ -0,0 +1,109 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { IQueueStorage, MemoryQueueStorage, Queue, SqliteQueueStorage } from "..";
+
+const storageFactories: [string, () => IQueueStorage][] = [
+    ["MemoryQueueStorage", () => {
+        return new MemoryQueueStorage();
+    }],
+    ["SqliteQueueStorage", () => {
+        return new SqliteQueueStorage({
+            "file": ":memory:",
+            "pollInterval": 10
+        });
+    }]
+];
+
+describe.each(storageFactories)("waitFor() with %s", (_, createStorage) => {
+    it("should keep waiting for a stopped task, until it is resumed", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        let executionCount = 0;
+        queue.register({
+            "foo": async ({ signal }) => {
+                ++executionCount;
+
+                if (executionCount === 1) {
+                    // block, until the queue is stopped
+                    while (!signal.aborted) {
+                        await new Promise((resolve) => {
+                            setTimeout(resolve, 5);
+                        });
+                    }
+                }
+
+                return executionCount;
+            }
+        });
+
+        await queue.start();
+        try {
+            const { id } = await queue.enqueue("foo");
+
+            while (executionCount < 1) {
+                await new Promise((resolve) => {
+                    setTimeout(resolve, 5);
+                });
+            }
+
+            const stopResult = await queue.stop();
+            expect(stopResult?.interruptedTasks).toEqual([{ id }]);
+
+            let isSettled = false;
+            const result = queue.waitFor(id, { "interval": 5 });
+            result.finally(() => {
+                isSettled = true;
+            }).catch(() => { });
+
+            await new Promise((resolve) => {
+                setTimeout(resolve, 50);
+            });
+            expect(isSettled).toBe(false);
+
+            await queue.start();
+
+            await expect(result).resolves.toBe(2);
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+
+    it("should reject, if a task has been cancelled", async () => {
+        const queue = new Queue({
+            "storage": createStorage()
+        });
+
+        queue.register({
+            "foo": async () => { }
+        });
+
+        await queue.start();
+        try {
+            queue.pause("foo");
+
+            const { id } = await queue.enqueue("foo");
+            await queue.cancel(id);
+
+            await expect(queue.waitFor(id, { "interval": 5 })).rejects.toThrow("has been cancelled");
+        }
+        finally {
+            await queue.dispose();
+        }
+    });
+});
@@ -0,0 +1,512 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { IQueueDeadLetterTask, IQueueStats, IQueueStopOptions, IQueueStopResult, IQueueTaskContext, IQueueTaskInfo, IQueueTaskInStorageOptions, QueueTaskStatus } from "../types";
+import type { Nilable } from "../types/internal";
+import { isNil, toSerializableError } from "../utils/internal";
+import { IMemoryQueueStorageOptions, IMemoryQueueStorageTask, MemoryQueueStorage } from "./memoryQueueStorage";
+
+/**
+ * Options for a `FileQueueStorage` instance.
+ *
+ * Leases are not supported, because a journal cannot be shared by multiple instances.
+ * Tasks, which were running, when the process stopped, are treated as stalled on the next start.
+ */
+export interface IFileQueueStorageOptions extends Omit<IMemoryQueueStorageOptions, "heartbeatInterval" | "leaseDuration"> {
+    /**
+     * The interval, in milliseconds, the journal is compacted, while the queue is running.
+     *
+     * Default: `60000`
+     */
+    compactionInterval?: Nilable<number>;
+    /**
+     * The path to the journal file.
+     */
+    file: string;
+}
+
+type JournalEntry = {
+    id: string;
+    op: "delete";
+} | {
+    op: "set";
+    task: IMemoryQueueStorageTask;
+};
+
+const defaultCompactionInterval = 60000;
+
+function reviveTask(task: IMemoryQueueStorageTask): IMemoryQueueStorageTask {
+    const toDate = (val: any): Date => {
+        return new Date(val);
+    };
+
+    return {
+        ...task,
+        "attempts": (task.attempts || []).map((a) => {
+            return {
+                ...a,
+                "endedAt": toDate(a.endedAt),
+                "startedAt": toDate(a.startedAt)
+            };
+        }),
+        "createdAt": task.createdAt ? toDate(task.createdAt) : null,
+        "failedAt": task.failedAt ? toDate(task.failedAt) : null,
+        "options": {
+            ...task.options,
+            "runAt": task.options.runAt ? toDate(task.options.runAt) : null
+        }
+    };
+}
+
+function toSerializableTask(task: IMemoryQueueStorageTask): IMemoryQueueStorageTask {
+    return {
+        ...task,
+        "attempts": task.attempts.map((a) => {
+            return {
+                ...a,
+                "error": toSerializableError(a.error)
+            };
+        }),
+        "lastError": toSerializableError(task.lastError)
+    };
+}
+
+/**
+ * A queue storage, which keeps its tasks in memory and persists them
+ * to an append-only journal file, so they survive restarts of the process.
+ *
+ * The journal is compacted periodically. Compacted versions are written
+ * to a temporary file first, which replaces the journal atomically.
+ *
+ * @example
+ * ```
+ * import { FileQueueStorage, Queue } from "@egomobile/queue";
+ *
+ * const queue = new Queue({
+ *   storageClass: FileQueueStorage,
+ *   storageClassArgs: [{
+ *     file: "/var/lib/my-service/queue.journal"
+ *   }]
+ * });
+ * ```
+ */
+export class FileQueueStorage extends MemoryQueueStorage {
+    private _changeCount = 0;
+    private _compactionTimer: Nilable<NodeJS.Timeout>;
+    private readonly _compactionInterval: number;
+    private _loader: Nilable<Promise<void>>;
+    private _pendingLines: string[] = [];
+    private _writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * The full path of the journal file.
+     */
+    public readonly file: string;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {IFileQueueStorageOptions} options The options.
+     */
+    public constructor(options: IFileQueueStorageOptions) {
+        super(options);
+
+        if (typeof options?.file !== "string") {
+            throw new TypeError("options.file must be of type string");
+        }
+
+        if (!isNil((options as IMemoryQueueStorageOptions).leaseDuration)) {
+            throw new TypeError("options.leaseDuration is not supported by FileQueueStorage");
+        }
+
+        this.file = path.resolve(options.file);
+        this._compactionInterval = options.compactionInterval ?? defaultCompactionInterval;
+    }
+
+    private appendToJournal(entry: JournalEntry) {
+        this._pendingLines.push(JSON.stringify(entry));
+        ++this._changeCount;
+
+        this.flush().catch((error) => {
+            this.emitError(error);
+        });
+    }
+
+    private compactJournal(): Promise<void> {
+        return this.enqueueWrite(async () => {
+            // the snapshot contains all pending changes
+            const lines = this.getTaskSnapshots().map((task) => {
+                const entry: JournalEntry = {
+                    "op": "set",
+                    "task": toSerializableTask(task)
+                };
+
+                return JSON.stringify(entry);
+            });
+
+            this._pendingLines = [];
+            this._changeCount = 0;
+
+            await fs.promises.mkdir(path.dirname(this.file), { "recursive": true });
+
+            const tempFile = `${this.file}.${process.pid}.tmp`;
+
+            const fileHandle = await fs.promises.open(tempFile, "w");
+            try {
+                await fileHandle.write(lines.map((line) => {
+                    return line + "\n";
+                }).join(""));
+                await fileHandle.sync();
+            }
+            finally {
+                await fileHandle.close();
+            }
+
+            await fs.promises.rename(tempFile, this.file);
+        });
+    }
+
+    private emitError(error: any) {
+        this.getErrorHandlers().forEach((handler) => {
+            try {
+                handler({
+                    error
+                });
+            }
+            catch (error2) {
+                console.error("[ERROR]", "@egomobile/queue", "FileQueueStorage.emitError()", error2);
+            }
+        });
+    }
+
+    private ensureLoaded(): Promise<void> {
+        if (!this._loader) {
+            this._loader = this.load();
+        }
+
+        return this._loader;
+    }
+
+    private enqueueWrite(action: () => Promise<void>): Promise<void> {
+        const write = this._writeQueue.then(action);
+
+        // keep the queue alive, even if a write fails
+        this._writeQueue = write.catch(() => { });
+
+        return write;
+    }
+
+    private async load() {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.file, "utf8");
+        }
+        catch (error: any) {
+            if (error?.code !== "ENOENT") {
+                throw error;
+            }
+
+            content = "";
+        }
+
+        const tasks = new Map<string, IMemoryQueueStorageTask>();
+
+        content.split("\n").forEach((line) => {
+            if (!line.trim()) {
+                return;
+            }
+
+            let entry: JournalEntry;
+            try {
+                entry = JSON.parse(line);
+            }
+            catch {
+                // incomplete line, written during a crash
+                return;
+            }
+
+            if (entry?.op === "set" && entry.task) {
+                tasks.set(entry.task.id, reviveTask(entry.task));
+            }
+            else if (entry?.op === "delete") {
+                tasks.delete(entry.id);
+            }
+        });
+
+        this.restoreTasks([...tasks.values()]);
+
+        await this.compactJournal();
+    }
+
+    private startCompactionTimer() {
+        if (this._compactionTimer || this._compactionInterval <= 0) {
+            return;
+        }
+
+        this._compactionTimer = setInterval(() => {
+            if (!this._changeCount) {
+                return;  // nothing to do
+            }
+
+            this.compactJournal().catch((error) => {
+                this.emitError(error);
+            });
+        }, this._compactionInterval);
+
+        // do not keep the process alive
+        this._compactionTimer.unref();
+    }
+
+    private stopCompactionTimer() {
+        if (this._compactionTimer) {
+            clearInterval(this._compactionTimer);
+
+            this._compactionTimer = null;
+        }
+    }
+
+    private async writePendingLines() {
+        const lines = this._pendingLines;
+        if (!lines.length) {
+            return;
+        }
+
+        this._pendingLines = [];
+
+        await fs.promises.mkdir(path.dirname(this.file), { "recursive": true });
+
+        const fileHandle = await fs.promises.open(this.file, "a");
+        try {
+            await fileHandle.write(lines.join("\n") + "\n");
+            await fileHandle.datasync();
+        }
+        finally {
+            await fileHandle.close();
+        }
+    }
+
+    /**
+     * Rewrites the journal, so that it only contains the current state of all tasks.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    public async compact(): Promise<void> {
+        await this.ensureLoaded();
+
+        return this.compactJournal();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected createTaskId(): string {
+        return crypto.randomBytes(16).toString("hex");
+    }
+
+    /**
+     * Writes all pending changes to the journal.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    public flush(): Promise<void> {
+        return this.enqueueWrite(() => {
+            return this.writePendingLines();
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected onTaskChanged(task: IMemoryQueueStorageTask): void {
+        this.appendToJournal({
+            "op": "set",
+            "task": toSerializableTask(task)
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected onTaskRemoved(id: string): void {
+        this.appendToJournal({
+            id,
+            "op": "delete"
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async cancelTask(id: any): Promise<boolean> {
+        await this.ensureLoaded();
+
+        const result = await super.cancelTask(id);
+        await this.flush();
+
+        return result;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async cancelTasksByKey(key: string): Promise<number> {
+        await this.ensureLoaded();
+
+        const result = await super.cancelTasksByKey(key);
+        await this.flush();
+
+        return result;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async dispose(): Promise<void> {
+        this.stopCompactionTimer();
+
+        await super.dispose();
+        await this.flush();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueRemainingTasks(): Promise<IQueueTaskContext[]> {
+        await this.ensureLoaded();
+
+        this.startCompactionTimer();
+
+        return super.enqueueRemainingTasks();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueTask(options: IQueueTaskInStorageOptions): Promise<IQueueTaskContext> {
+        await this.ensureLoaded();
+
+        const context = await super.enqueueTask(options);
+        await this.flush();
+
+        return context;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueTasks(optionsList: IQueueTaskInStorageOptions[]): Promise<IQueueTaskContext[]> {
+        await this.ensureLoaded();
+
+        // all tasks are written with one flush
+        const contextes = await super.enqueueTasks(optionsList);
+        await this.flush();
+
+        return contextes;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getDeadLetterTask(id: any): Promise<Nilable<IQueueDeadLetterTask>> {
+        await this.ensureLoaded();
+
+        return super.getDeadLetterTask(id);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getDeadLetterTasks(): Promise<IQueueDeadLetterTask[]> {
+        await this.ensureLoaded();
+
+        return super.getDeadLetterTasks();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getFlowTasks(flowId: string): Promise<IQueueTaskInfo[]> {
+        await this.ensureLoaded();
+
+        return super.getFlowTasks(flowId);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getStats(): Promise<IQueueStats> {
+        await this.ensureLoaded();
+
+        return super.getStats();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getTaskStatus(id: any): Promise<Nilable<QueueTaskStatus>> {
+        await this.ensureLoaded();
+
+        return super.getTaskStatus(id);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public init(): Promise<void> {
+        return this.ensureLoaded();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async purgeDeadLetterTasks(ids?: Nilable<any[]>): Promise<number> {
+        await this.ensureLoaded();
+
+        const result = await super.purgeDeadLetterTasks(ids);
+        await this.flush();
+
+        return result;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async requeueDeadLetterTask(id: any): Promise<Nilable<IQueueTaskContext>> {
+        await this.ensureLoaded();
+
+        const result = await super.requeueDeadLetterTask(id);
+        await this.flush();
+
+        return result;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async stopAllEnqueuedTasks(options?: Nilable<IQueueStopOptions>): Promise<IQueueStopResult> {
+        await this.ensureLoaded();
+
+        this.stopCompactionTimer();
+
+        const result = await super.stopAllEnqueuedTasks(options);
+
+        await this.compactJournal();
+
+        return result;
+    }
+}
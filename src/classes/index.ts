@@ -16,4 +16,6 @@
 // KEEP THIS ORDER!
 export * from "./queueStorageBase";
 export * from "./memoryQueueStorage";
+export * from "./fileQueueStorage";
+export * from "./sqliteQueueStorage";
 export * from "./queue";
@@ -12,13 +12,179 @@
 //
 // You should have received a copy of the GNU Lesser General Public License
 // along with this program. If not, see <http://www.gnu.org/licenses/>.
+import { QueueTaskStalledError, QueueTaskTimeoutError } from "../errors";
 
-import type { IQueueExecutionHandlerContext, IQueueTaskContext, IQueueTaskInStorageOptions } from "../types";
+import type { IQueueConcurrencyLimits, IQueueDeadLetterTask, IQueueExecutionHandlerContext, IQueueKeyStats, IQueueRateLimit, IQueueRateLimits, IQueueRateLimitStats, IQueueRetryPolicy, IQueueStats, IQueueStopOptions, IQueueStopResult, IQueueTaskAttempt, IQueueTaskContext, IQueueTaskEventContext, IQueueTaskInfo, IQueueTaskInStorageOptions, QueueFlowFailurePolicy, QueueTaskStatus } from "../types";
+import type { Nilable } from "../types/internal";
+import { createAbortController, IAbortController } from "../utils/abort";
+import { defaultRetryMaxAttempts, getRetryDelay, isNil } from "../utils/internal";
+import { createHistogram, createThroughputCounter, defaultHistogramBuckets, defaultThroughputInterval, IHistogram, IThroughputCounter, validateHistogramBuckets } from "../utils/metrics";
+import { createRateLimiter, IRateLimiter } from "../utils/rateLimit";
 import { QueueStorageBase } from "./queueStorageBase";
 
+/**
+ * Options for a `MemoryQueueStorage` instance.
+ */
+export interface IMemoryQueueStorageOptions {
+    /**
+     * The time, in milliseconds, after which the priority of a waiting task
+     * is increased by `1`, so that tasks with low priority do not starve.
+     *
+     * If not defined, aging is disabled.
+     */
+    agingInterval?: Nilable<number>;
+    /**
+     * The interval, in milliseconds, the lease of a running task is renewed.
+     *
+     * Default: a third of `leaseDuration`
+     */
+    heartbeatInterval?: Nilable<number>;
+    /**
+     * The upper bounds, in milliseconds, of the buckets of the duration and wait time histograms.
+     *
+     * Default: `[5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000]`
+     */
+    histogramBuckets?: Nilable<number[]>;
+    /**
+     * The time, in milliseconds, the idempotency key of a finished task is kept,
+     * so that duplicates are not enqueued again.
+     *
+     * Default: value of `retention`
+     */
+    idempotencyRetention?: Nilable<number>;
+    /**
+     * The time, in milliseconds, a running task is leased to this instance. The lease is renewed
+     * by heartbeats, while the task is running. If it expires, e.g. because the process crashed,
+     * other instances, which share the same persistent storage, can treat the task as stalled.
+     *
+     * If not defined, leases are disabled.
+     */
+    leaseDuration?: Nilable<number>;
+    /**
+     * The maximum number of times a task can stall and is requeued,
+     * before it is moved to the dead-letter area.
+     *
+     * Default: `1`
+     */
+    maxStalledCount?: Nilable<number>;
+    /**
+     * The time, in milliseconds, information about finished tasks is kept,
+     * so that it can be requested by `getTask()`.
+     *
+     * Default: `60000`
+     */
+    retention?: Nilable<number>;
+    /**
+     * The length of the interval, in milliseconds, the throughput is calculated for.
+     *
+     * Default: `60000`
+     */
+    throughputInterval?: Nilable<number>;
+}
+
+/**
+ * A serializable snapshot of a task of a `MemoryQueueStorage`,
+ * which can be used by subclasses to persist its state.
+ */
+export interface IMemoryQueueStorageTask {
+    /**
+     * The number of attempts, which have been started.
+     */
+    attempt: number;
+    /**
+     * The history of all attempts.
+     */
+    attempts: IQueueTaskAttempt[];
+    /**
+     * The time, the task has been enqueued.
+     */
+    createdAt?: Nilable<Date>;
+    /**
+     * The timestamp, the task is due at, if defined.
+     */
+    dueAt?: Nilable<number>;
+    /**
+     * The time, the task has been moved to dead-letter area.
+     */
+    failedAt?: Nilable<Date>;
+    /**
+     * The ID.
+     */
+    id: string;
+    /**
+     * The last error.
+     */
+    lastError?: any;
+    /**
+     * The timestamp, the lease of a running task expires at, if leases are enabled.
+     */
+    leaseExpiresAt?: Nilable<number>;
+    /**
+     * The options, the task has been enqueued with.
+     */
+    options: IQueueTaskInStorageOptions;
+    /**
+     * The finished parent tasks of a flow, by their names.
+     */
+    parents?: Nilable<Record<string, IMemoryQueueStorageTaskParent>>;
+    /**
+     * The result, if task succeeded.
+     */
+    result?: any;
+    /**
+     * The number of times, the task stalled.
+     */
+    stalledCount?: Nilable<number>;
+    /**
+     * The current status. Tasks with `"failed"` status are part of the dead-letter area.
+     */
+    status: QueueTaskStatus;
+}
+
+/**
+ * A finished parent task of a task of a `MemoryQueueStorage`, which is part of a flow.
+ */
+export interface IMemoryQueueStorageTaskParent {
+    /**
+     * The result, if parent task succeeded.
+     */
+    result?: any;
+    /**
+     * The final status of the parent task.
+     */
+    status: QueueTaskStatus;
+}
+
+interface IKeyMetrics {
+    duration: IHistogram;
+    throughput: IThroughputCounter;
+    wait: IHistogram;
+}
+
+interface IQueueCursor {
+    index: number;
+    tasks: ITaskInQueue[];
+}
+
 interface ITaskInQueue {
+    abortController?: Nilable<IAbortController>;
+    attempt: number;
+    attempts: IQueueTaskAttempt[];
+    createdAt: Date;
+    dueAt?: Nilable<number>;
+    failedAt?: Date;
+    finishedAt?: Date;
+    hasSlot?: boolean;
     id: string;
+    isInQueue?: boolean;
+    lastError?: any;
+    leaseExpiresAt?: Nilable<number>;
     options: IQueueTaskInStorageOptions;
+    parents?: Nilable<Record<string, IMemoryQueueStorageTaskParent>>;
+    queuedAt: number;
+    result?: any;
+    sequence: number;
+    stalledCount?: Nilable<number>;
     status: TaskInQueueStatus;
 }
 
@@ -28,140 +194,1744 @@ enum TaskInQueueStatus {
     Succeded = 2,
     Failed = 3,
     Stopped = 4,
+    Cancelled = 5,
 }
 
+const defaultFlowFailurePolicy: QueueFlowFailurePolicy = "cancel";
+const defaultMaxStalledCount = 1;
+const defaultRetention = 60000;
+
+function toIdempotencyKey(options: IQueueTaskInStorageOptions): Nilable<string> {
+    if (isNil(options.idempotencyKey)) {
+        return null;
+    }
+
+    // idempotency keys are unique per task key
+    return JSON.stringify([options.key, String(options.idempotencyKey)]);
+}
+
+const taskStatuses: Record<TaskInQueueStatus, QueueTaskStatus> = {
+    [TaskInQueueStatus.Queued]: "queued",
+    [TaskInQueueStatus.Running]: "running",
+    [TaskInQueueStatus.Succeded]: "succeeded",
+    [TaskInQueueStatus.Failed]: "failed",
+    [TaskInQueueStatus.Stopped]: "stopped",
+    [TaskInQueueStatus.Cancelled]: "cancelled"
+};
+
 /**
- * A queue stroage based on array in memory.
+ * A queue stroage, which keeps its tasks in memory.
+ *
+ * Queued tasks are organized in buckets by priority, which are
+ * processed in FIFO order.
  */
 export class MemoryQueueStorage extends QueueStorageBase {
+    private readonly _activeIdempotencyKeys = new Map<string, string>();
+    private readonly _agingInterval: Nilable<number>;
+    private _concurrency: IQueueConcurrencyLimits = {};
+    private _deadLetterTasks: ITaskInQueue[] = [];
+    private _drainListeners: (() => void)[] = [];
+    private readonly _finishedIdempotencyKeys = new Map<string, { finishedAt: number; id: string; }>();
+    private readonly _finishedTasks = new Map<string, ITaskInQueue>();
+    private _globalRateLimiter: Nilable<IRateLimiter>;
+    private readonly _heartbeatInterval: number;
+    private readonly _histogramBuckets: number[];
+    private readonly _idempotencyRetention: number;
+    private _isDispatchScheduled = false;
+    private _isIdle = true;
+    // tasks are not executed before the queue has been started
+    private _isStopped = true;
+    private readonly _leaseDuration: number;
+    private readonly _maxStalledCount: number;
+    private readonly _metricsByKey: Record<string, IKeyMetrics> = {};
     private _nextId: number = Number.MIN_SAFE_INTEGER;
-    private _tasksInQueue: ITaskInQueue[] = [];
+    private _nextSequence = 0;
+    private _pausedKeys = new Set<string>();
+    private _priorities: number[] = [];
+    private readonly _queuedTasks = new Map<number, ITaskInQueue[]>();
+    private _rateLimitersByKey: Record<string, IRateLimiter> = {};
+    private readonly _retention: number;
+    private _retryPolicy: Nilable<IQueueRetryPolicy>;
+    private _runningCount = 0;
+    private readonly _runningCountByKey: Record<string, number> = {};
+    private _schedulerTimer: Nilable<NodeJS.Timeout>;
+    private readonly _tasks = new Map<string, ITaskInQueue>();
+    private readonly _throughput: IThroughputCounter;
+    private readonly _throughputInterval: number;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Nilable<IMemoryQueueStorageOptions>} [options] Custom options.
+     */
+    public constructor(options?: Nilable<IMemoryQueueStorageOptions>) {
+        super();
+
+        this._agingInterval = options?.agingInterval;
+        this._retention = options?.retention ?? defaultRetention;
+        this._idempotencyRetention = options?.idempotencyRetention ?? this._retention;
+        this._leaseDuration = Math.max(0, options?.leaseDuration ?? 0);
+        this._heartbeatInterval = options?.heartbeatInterval ?? Math.ceil(this._leaseDuration / 3);
+        this._maxStalledCount = options?.maxStalledCount ?? defaultMaxStalledCount;
 
-    private cleanupTasksInQueue() {
-        this._tasksInQueue = this._tasksInQueue.filter((t) => {
-            return t.status !== TaskInQueueStatus.Succeded;
+        const histogramBuckets = options?.histogramBuckets ?? defaultHistogramBuckets;
+        validateHistogramBuckets(histogramBuckets, "options.histogramBuckets");
+
+        this._histogramBuckets = [...histogramBuckets].sort((x, y) => {
+            return x - y;
         });
+        this._throughputInterval = options?.throughputInterval ?? defaultThroughputInterval;
+        this._throughput = createThroughputCounter(this._throughputInterval);
     }
 
-    private executeTask(taskInQueue: ITaskInQueue) {
-        const isStopped = () => {
-            return taskInQueue.status === TaskInQueueStatus.Stopped;
-        };
+    private acquireSlot(taskInQueue: ITaskInQueue): boolean {
+        const { key } = taskInQueue.options;
 
-        const executionHandlers = this.getExecutionHandlers();
-        if (!executionHandlers.length) {
+        const globalLimit = this._concurrency.global;
+        if (!isNil(globalLimit) && this._runningCount >= globalLimit) {
+            return false;
+        }
+
+        const runningCountOfKey = this._runningCountByKey[key] || 0;
+
+        const keyLimit = this._concurrency.keys?.[key];
+        if (!isNil(keyLimit) && runningCountOfKey >= keyLimit) {
+            return false;
+        }
+
+        ++this._runningCount;
+        this._runningCountByKey[key] = runningCountOfKey + 1;
+
+        taskInQueue.hasSlot = true;
+        return true;
+    }
+
+    private addToQueue(taskInQueue: ITaskInQueue) {
+        if (taskInQueue.isInQueue) {
             return;
         }
 
-        const { options } = taskInQueue;
-        const { data, key } = options;
+        const priority = taskInQueue.options.priority || 0;
 
-        const handleError = (error: any) => {
-            const shouldRetry = !isStopped();
+        let tasksOfPriority = this._queuedTasks.get(priority);
+        if (!tasksOfPriority) {
+            tasksOfPriority = [];
 
-            taskInQueue.status = TaskInQueueStatus.Failed;
+            this._queuedTasks.set(priority, tasksOfPriority);
+            this._priorities = [...this._queuedTasks.keys()].sort((x, y) => {
+                return y - x;
+            });
+        }
 
-            this.getErrorHandlers().forEach((handler) => {
-                try {
-                    handler({
-                        error
-                    });
+        taskInQueue.isInQueue = true;
+        taskInQueue.queuedAt = Date.now();
+        taskInQueue.sequence = this._nextSequence++;
+
+        tasksOfPriority.push(taskInQueue);
+    }
+
+    private createQueueIterator(now: number): () => Nilable<ITaskInQueue> {
+        const agingInterval = this._agingInterval;
+
+        const getEffectivePriority = (taskInQueue: ITaskInQueue) => {
+            const priority = taskInQueue.options.priority || 0;
+
+            return agingInterval && agingInterval > 0 ?
+                priority + Math.floor((now - taskInQueue.queuedAt) / agingInterval) :
+                priority;
+        };
+
+        // the tasks of a priority are ordered by the time they have been queued,
+        // which is also the order of their effective priority, so that the lists
+        // only have to be merged, instead of being copied and sorted
+        const cursors: IQueueCursor[] = this._priorities.map((priority) => {
+            return {
+                "index": 0,
+                "tasks": this._queuedTasks.get(priority)!
+            };
+        });
+
+        let lastCursor: Nilable<IQueueCursor>;
+        let lastTask: Nilable<ITaskInQueue>;
+
+        return () => {
+            // the last task is not in the list anymore, if it has been started
+            if (lastCursor && lastCursor.tasks[lastCursor.index] === lastTask) {
+                ++lastCursor.index;
+            }
+
+            lastCursor = null;
+            lastTask = null;
+
+            let lastPriority = 0;
+            cursors.forEach((cursor) => {
+                const taskInQueue = cursor.tasks[cursor.index];
+                if (!taskInQueue) {
+                    return;
                 }
-                catch (error2) {
-                    console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.executeTask(handleError)", error2);
+
+                const priority = getEffectivePriority(taskInQueue);
+                if (!lastTask || priority > lastPriority || (priority === lastPriority && taskInQueue.sequence < lastTask.sequence)) {
+                    lastCursor = cursor;
+                    lastPriority = priority;
+                    lastTask = taskInQueue;
                 }
             });
 
-            if (shouldRetry) {
+            return lastTask;
+        };
+    }
+
+    private dispatchTasks() {
+        if (this._isStopped || !this.getExecutionHandlers().length) {
+            return;
+        }
+
+        const now = Date.now();
+        let nextDueAt: Nilable<number>;
+        let hasPendingTasks = false;
+
+        const getNextQueuedTask = this.createQueueIterator(now);
+
+        for (let taskInQueue = getNextQueuedTask(); taskInQueue; taskInQueue = getNextQueuedTask()) {
+            const flowState = this.getFlowState(taskInQueue);
+            if (flowState === "blocked") {
+                continue;  // waiting for parent tasks
+            }
+            else if (flowState === "cancelled") {
+                this.finishTask(taskInQueue, TaskInQueueStatus.Cancelled);
+
+                continue;
+            }
+
+            if (this._pausedKeys.has(taskInQueue.options.key)) {
+                continue;  // waiting until key is resumed
+            }
+
+            const { dueAt } = taskInQueue;
+            if (!isNil(dueAt) && dueAt > now) {
+                // not due yet
+                nextDueAt = isNil(nextDueAt) ? dueAt : Math.min(nextDueAt, dueAt);
+
+                if (taskInQueue.attempt > 0) {
+                    hasPendingTasks = true;  // waiting for retry
+                }
+
+                continue;
+            }
+
+            const rateLimitedUntil = this.getRateLimitedUntil(taskInQueue, now);
+            if (!isNil(rateLimitedUntil)) {
+                // check again, when capacity comes back
+                nextDueAt = isNil(nextDueAt) ? rateLimitedUntil : Math.min(nextDueAt, rateLimitedUntil);
+                hasPendingTasks = true;
+
+                continue;
+            }
+
+            if (!this.acquireSlot(taskInQueue)) {
+                hasPendingTasks = true;
+
+                const globalLimit = this._concurrency.global;
+                if (!isNil(globalLimit) && this._runningCount >= globalLimit) {
+                    // no other task can be started, until a running one
+                    // has been finished, which dispatches again
+                    break;
+                }
+
+                continue;
+            }
+
+            if (this.tryClaimTask(taskInQueue)) {
+                this.getRateLimiters(taskInQueue).forEach((rateLimiter) => {
+                    rateLimiter.take(now);
+                });
+
                 this.executeTask(taskInQueue);
             }
-        };
+            else {
+                // task is handled by someone else
+                this.releaseSlot(taskInQueue);
+                this.removeFromQueue(taskInQueue);
 
-        setImmediate(() => {
-            if (isStopped()) {
-                return;
+                this._tasks.delete(taskInQueue.id);
             }
+        }
 
-            taskInQueue.status = TaskInQueueStatus.Queued;
+        this.scheduleNextDueTask(nextDueAt);
 
-            const context: IQueueExecutionHandlerContext = {
-                "data": {
-                    ...data
-                },
-                "taskKey": key
-            };
+        if (!this._isIdle && !hasPendingTasks && this._runningCount < 1) {
+            this._isIdle = true;
 
-            try {
-                taskInQueue.status = TaskInQueueStatus.Running;
+            this.emit("idle", undefined);
+        }
+    }
 
-                Promise.all(executionHandlers.map((handler) => {
-                    return Promise.resolve(handler(context));
-                }))
-                    .then(() => {
-                        taskInQueue.status = TaskInQueueStatus.Succeded;
+    private findTask(id: any): Nilable<ITaskInQueue> {
+        const taskId = String(id);
 
-                        this.cleanupTasksInQueue();
-                    })
-                    .catch(handleError);
+        this.removeExpiredTasks();
+
+        return this._tasks.get(taskId) ||
+            this._finishedTasks.get(taskId) ||
+            this._deadLetterTasks.find((t) => {
+                return t.id === taskId;
+            });
+    }
+
+    private findDuplicateTaskId(options: IQueueTaskInStorageOptions): Nilable<string> {
+        const idempotencyKey = toIdempotencyKey(options);
+        if (isNil(idempotencyKey)) {
+            return null;
+        }
+
+        this.removeExpiredIdempotencyKeys();
+
+        return this._activeIdempotencyKeys.get(idempotencyKey) ??
+            this._finishedIdempotencyKeys.get(idempotencyKey)?.id;
+    }
+
+    private finishTask(taskInQueue: ITaskInQueue, status: TaskInQueueStatus) {
+        taskInQueue.finishedAt = new Date();
+        taskInQueue.status = status;
+
+        this.removeFromQueue(taskInQueue);
+        this._tasks.delete(taskInQueue.id);
+        this.releaseIdempotencyKey(taskInQueue);
+
+        this.removeExpiredTasks();
+        if (this._retention > 0) {
+            this._finishedTasks.set(taskInQueue.id, taskInQueue);
+        }
+
+        this.notifyTaskRemoved(taskInQueue.id);
+
+        this.resolveDependents(taskInQueue);
+    }
+
+    private getFlowState(taskInQueue: ITaskInQueue): "blocked" | "cancelled" | "ready" {
+        const flow = taskInQueue.options.flow;
+        if (!flow?.dependsOn?.length) {
+            return "ready";
+        }
+
+        let isBlocked = false;
+        let hasFailedParents = false;
+        flow.dependsOn.forEach((name) => {
+            const parent = taskInQueue.parents?.[name];
+
+            if (!parent) {
+                isBlocked = true;
             }
-            catch (error: any) {
-                handleError(error);
+            else if (parent.status !== "succeeded") {
+                hasFailedParents = true;
             }
         });
+
+        if (hasFailedParents && (flow.failurePolicy || defaultFlowFailurePolicy) === "cancel") {
+            return "cancelled";
+        }
+
+        return isBlocked ? "blocked" : "ready";
     }
 
-    /**
-     * @inheritdoc
-     */
-    public async enqueueRemainingTasks(): Promise<IQueueTaskContext[]> {
-        const result: IQueueTaskContext[] = [];
+    private getKeyMetrics(key: string): IKeyMetrics {
+        let metrics = this._metricsByKey[key];
+        if (!metrics) {
+            metrics = {
+                "duration": createHistogram(this._histogramBuckets),
+                "throughput": createThroughputCounter(this._throughputInterval),
+                "wait": createHistogram(this._histogramBuckets)
+            };
+
+            this._metricsByKey[key] = metrics;
+        }
+
+        return metrics;
+    }
+
+    private getRateLimitedUntil(taskInQueue: ITaskInQueue, now: number): Nilable<number> {
+        let rateLimitedUntil: Nilable<number>;
 
-        const tasksWithQueuedStatus = this._tasksInQueue.filter((t) => {
-            return t.status === TaskInQueueStatus.Queued;
+        this.getRateLimiters(taskInQueue).forEach((rateLimiter) => {
+            if (rateLimiter.getAvailable(now) < 1) {
+                rateLimitedUntil = Math.max(rateLimitedUntil ?? now, rateLimiter.getNextAvailableAt(now));
+            }
         });
-        tasksWithQueuedStatus.forEach((t) => {
-            this.executeTask({
-                "id": t.id,
-                "options": t.options,
-                "status": t.status
+
+        return rateLimitedUntil;
+    }
+
+    private getRateLimiters(taskInQueue: ITaskInQueue): IRateLimiter[] {
+        const rateLimiters: IRateLimiter[] = [];
+
+        if (this._globalRateLimiter) {
+            rateLimiters.push(this._globalRateLimiter);
+        }
+
+        const rateLimiterOfKey = this._rateLimitersByKey[taskInQueue.options.key];
+        if (rateLimiterOfKey) {
+            rateLimiters.push(rateLimiterOfKey);
+        }
+
+        return rateLimiters;
+    }
+
+    private getQueuedTasks(now: number): ITaskInQueue[] {
+        const getNextQueuedTask = this.createQueueIterator(now);
+
+        const queuedTasks: ITaskInQueue[] = [];
+        for (let taskInQueue = getNextQueuedTask(); taskInQueue; taskInQueue = getNextQueuedTask()) {
+            queuedTasks.push(taskInQueue);
+        }
+
+        return queuedTasks;
+    }
+
+    private moveToDeadLetters(taskInQueue: ITaskInQueue, lastError: any) {
+        taskInQueue.failedAt = new Date();
+        taskInQueue.lastError = lastError;
+
+        this._deadLetterTasks.push(taskInQueue);
+
+        this._tasks.delete(taskInQueue.id);
+        this.releaseIdempotencyKey(taskInQueue);
+
+        this.notifyTaskChanged(taskInQueue);
+
+        this.resolveDependents(taskInQueue);
+    }
+
+    private notifyTaskChanged(taskInQueue: ITaskInQueue) {
+        try {
+            this.onTaskChanged(this.toTaskSnapshot(taskInQueue));
+        }
+        catch (error) {
+            console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.notifyTaskChanged()", error);
+        }
+    }
+
+    private notifyTaskRemoved(id: string) {
+        try {
+            this.onTaskRemoved(id);
+        }
+        catch (error) {
+            console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.notifyTaskRemoved()", error);
+        }
+    }
+
+    private recordAttempt(taskInQueue: ITaskInQueue, attempt: IQueueTaskAttempt, isFailed: boolean) {
+        const now = Date.now();
+        const metrics = this.getKeyMetrics(taskInQueue.options.key);
+
+        metrics.duration.observe(attempt.endedAt.getTime() - attempt.startedAt.getTime());
+        metrics.throughput.add(now, isFailed);
+
+        this._throughput.add(now, isFailed);
+    }
+
+    private releaseSlot(taskInQueue: ITaskInQueue) {
+        if (!taskInQueue.hasSlot) {
+            return;
+        }
+
+        const { key } = taskInQueue.options;
+
+        --this._runningCount;
+        --this._runningCountByKey[key];
+        if (this._runningCountByKey[key] < 1) {
+            delete this._runningCountByKey[key];
+        }
+
+        delete taskInQueue.hasSlot;
+
+        if (this._runningCount < 1) {
+            const listeners = this._drainListeners;
+            this._drainListeners = [];
+
+            listeners.forEach((listener) => {
+                listener();
             });
-        });
+        }
 
-        return result;
+        this.scheduleDispatch();
     }
 
-    /**
-     * @inheritdoc
-     */
-    public async enqueueTask(options: IQueueTaskInStorageOptions): Promise<IQueueTaskContext> {
-        const id = String(this._nextId++);
+    private releaseIdempotencyKey(taskInQueue: ITaskInQueue) {
+        const idempotencyKey = toIdempotencyKey(taskInQueue.options);
+        if (isNil(idempotencyKey) || this._activeIdempotencyKeys.get(idempotencyKey) !== taskInQueue.id) {
+            return;
+        }
 
-        const taskInQueue: ITaskInQueue = {
-            id,
-            options,
-            "status": TaskInQueueStatus.Queued
-        };
+        this._activeIdempotencyKeys.delete(idempotencyKey);
 
-        this._tasksInQueue.push(taskInQueue);
-        this.executeTask(taskInQueue);
+        this.removeExpiredIdempotencyKeys();
+        if (this._idempotencyRetention > 0) {
+            const finishedAt = Date.now();
 
-        return {
-            id
-        };
+            this._finishedIdempotencyKeys.set(idempotencyKey, {
+                finishedAt,
+                "id": taskInQueue.id
+            });
+
+            try {
+                // keys, which have to be known by other instances
+                this.onIdempotencyKeyRetained(this.toTaskSnapshot(taskInQueue), finishedAt + this._idempotencyRetention);
+            }
+            catch (error) {
+                console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.releaseIdempotencyKey()", error);
+            }
+        }
     }
 
-    /**
-     * @inheritdoc
-     */
-    public async stopAllEnqueuedTasks(): Promise<any> {
-        const tasksToStop = this._tasksInQueue.filter((t) => {
-            return t.status === TaskInQueueStatus.Queued ||
-                t.status === TaskInQueueStatus.Running ||
-                t.status === TaskInQueueStatus.Failed;
-        });
+    private removeExpiredIdempotencyKeys() {
+        const now = Date.now();
 
-        tasksToStop.forEach((t) => {
-            t.status = TaskInQueueStatus.Stopped;
-        });
+        // keys are sorted by time their tasks finished
+        for (const [idempotencyKey, { finishedAt }] of this._finishedIdempotencyKeys) {
+            if (now - finishedAt < this._idempotencyRetention) {
+                break;
+            }
+
+            this._finishedIdempotencyKeys.delete(idempotencyKey);
+        }
+    }
+
+    private removeExpiredTasks() {
+        const now = Date.now();
+
+        // tasks are sorted by time they finished
+        for (const [id, taskInQueue] of this._finishedTasks) {
+            if (now - taskInQueue.finishedAt!.getTime() < this._retention) {
+                break;
+            }
+
+            this._finishedTasks.delete(id);
+        }
+    }
+
+    private removeFromQueue(taskInQueue: ITaskInQueue) {
+        if (!taskInQueue.isInQueue) {
+            return;
+        }
+
+        const priority = taskInQueue.options.priority || 0;
+
+        const tasksOfPriority = this._queuedTasks.get(priority);
+        if (tasksOfPriority) {
+            const index = tasksOfPriority.indexOf(taskInQueue);
+            if (index > -1) {
+                tasksOfPriority.splice(index, 1);
+            }
+
+            if (!tasksOfPriority.length) {
+                this._queuedTasks.delete(priority);
+                this._priorities = this._priorities.filter((p) => {
+                    return p !== priority;
+                });
+            }
+        }
+
+        delete taskInQueue.isInQueue;
+    }
+
+    private resolveDependents(taskInQueue: ITaskInQueue) {
+        const flow = taskInQueue.options.flow;
+        if (!flow) {
+            return;
+        }
+
+        const parent: IMemoryQueueStorageTaskParent = {
+            "result": taskInQueue.result,
+            "status": taskStatuses[taskInQueue.status]
+        };
+
+        this._tasks.forEach((dependent) => {
+            const dependentFlow = dependent.options.flow;
+
+            if (dependentFlow?.id === flow.id && dependentFlow.dependsOn?.includes(flow.name)) {
+                dependent.parents = {
+                    ...dependent.parents,
+                    [flow.name]: parent
+                };
+
+                this.notifyTaskChanged(dependent);
+            }
+        });
+
+        try {
+            // dependents, which are not known by this instance
+            this.onFlowTaskFinished(this.toTaskSnapshot(taskInQueue));
+        }
+        catch (error) {
+            console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.resolveDependents()", error);
+        }
+
+        this.scheduleDispatch();
+    }
+
+    /**
+     * Schedules the dispatching of all queued tasks, which are due.
+     */
+    protected scheduleDispatch() {
+        if (this._isDispatchScheduled) {
+            return;
+        }
+
+        this._isDispatchScheduled = true;
+
+        setImmediate(() => {
+            this._isDispatchScheduled = false;
+
+            this.dispatchTasks();
+        });
+    }
+
+    private scheduleNextDueTask(dueAt: Nilable<number>) {
+        if (this._schedulerTimer) {
+            clearTimeout(this._schedulerTimer);
+
+            this._schedulerTimer = null;
+        }
+
+        if (isNil(dueAt)) {
+            return;
+        }
+
+        // setTimeout() does not support delays greater than 2^31 - 1
+        const delay = Math.min(Math.max(0, dueAt - Date.now()), 2147483647);
+
+        this._schedulerTimer = setTimeout(() => {
+            this._schedulerTimer = null;
+
+            this.dispatchTasks();
+        }, delay);
+    }
+
+    private tryClaimTask(taskInQueue: ITaskInQueue): boolean {
+        if (this._leaseDuration > 0) {
+            taskInQueue.leaseExpiresAt = Date.now() + this._leaseDuration;
+        }
+
+        try {
+            return this.claimTask(this.toTaskSnapshot(taskInQueue));
+        }
+        catch (error) {
+            console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.tryClaimTask()", error);
+
+            return false;
+        }
+    }
+
+    private toDeadLetterTask(taskInQueue: ITaskInQueue): IQueueDeadLetterTask {
+        const { data, key } = taskInQueue.options;
+
+        return {
+            "attempts": taskInQueue.attempts.map((a) => {
+                return { ...a };
+            }),
+            "data": {
+                ...data
+            },
+            "failedAt": taskInQueue.failedAt!,
+            "id": taskInQueue.id,
+            key,
+            "lastError": taskInQueue.lastError
+        };
+    }
+
+    private trackIdempotencyKey(taskInQueue: ITaskInQueue) {
+        const idempotencyKey = toIdempotencyKey(taskInQueue.options);
+        if (isNil(idempotencyKey)) {
+            return;
+        }
+
+        this._finishedIdempotencyKeys.delete(idempotencyKey);
+        this._activeIdempotencyKeys.set(idempotencyKey, taskInQueue.id);
+    }
+
+    private toEventContext(taskInQueue: ITaskInQueue): IQueueTaskEventContext {
+        return {
+            "attempt": taskInQueue.attempt,
+            "data": taskInQueue.options.data,
+            "id": taskInQueue.id,
+            "key": taskInQueue.options.key
+        };
+    }
+
+    private toTaskInfo(taskInQueue: ITaskInQueue): IQueueTaskInfo {
+        const { data, flow, key } = taskInQueue.options;
+
+        return {
+            "attempts": taskInQueue.attempts.map((a) => {
+                return { ...a };
+            }),
+            "createdAt": taskInQueue.createdAt,
+            "data": {
+                ...data
+            },
+            "finishedAt": taskInQueue.finishedAt ?? taskInQueue.failedAt,
+            flow,
+            "id": taskInQueue.id,
+            key,
+            "lastError": taskInQueue.lastError,
+            "result": taskInQueue.result,
+            "stalledCount": taskInQueue.stalledCount,
+            "startedAt": taskInQueue.attempts[0]?.startedAt,
+            "status": taskStatuses[taskInQueue.status]
+        };
+    }
+
+    private toTaskSnapshot(taskInQueue: ITaskInQueue): IMemoryQueueStorageTask {
+        return {
+            "attempt": taskInQueue.attempt,
+            "attempts": taskInQueue.attempts.map((a) => {
+                return { ...a };
+            }),
+            "createdAt": taskInQueue.createdAt,
+            "dueAt": taskInQueue.dueAt,
+            "failedAt": taskInQueue.failedAt,
+            "id": taskInQueue.id,
+            "lastError": taskInQueue.lastError,
+            "leaseExpiresAt": taskInQueue.leaseExpiresAt,
+            "options": taskInQueue.options,
+            "parents": taskInQueue.parents,
+            "result": taskInQueue.result,
+            "stalledCount": taskInQueue.stalledCount,
+            "status": taskStatuses[taskInQueue.status]
+        };
+    }
+
+    private executeTask(taskInQueue: ITaskInQueue) {
+        const abortController = createAbortController();
+
+        const isCancelled = () => {
+            return taskInQueue.status === TaskInQueueStatus.Cancelled;
+        };
+        const isInterrupted = () => {
+            // task has been interrupted by stopAllEnqueuedTasks()
+            return taskInQueue.abortController !== abortController;
+        };
+        const isStopped = () => {
+            return taskInQueue.status === TaskInQueueStatus.Stopped;
+        };
+
+        const executionHandlers = this.getExecutionHandlers();
+
+        const { options } = taskInQueue;
+        const { data, key, retry, timeout } = options;
+
+        const shouldRetry = (error: any): boolean => {
+            if (isCancelled() || isStopped()) {
+                return false;
+            }
+
+            const maxAttempts = retry?.maxAttempts ?? defaultRetryMaxAttempts;
+            if (taskInQueue.attempt >= maxAttempts) {
+                return false;
+            }
+
+            // functions are not persisted, so use the default one
+            // for tasks, which have been restored
+            const isRetryable = retry?.isRetryable ?? this._retryPolicy?.isRetryable;
+            if (typeof isRetryable === "function") {
+                try {
+                    return !!isRetryable(error, taskInQueue.attempt);
+                }
+                catch (error2) {
+                    console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.executeTask(shouldRetry)", error2);
+
+                    return false;
+                }
+            }
+
+            return true;
+        };
+
+        let currentAttempt: Nilable<IQueueTaskAttempt>;
+
+        let heartbeatTimer: Nilable<NodeJS.Timeout>;
+        const stopHeartbeat = () => {
+            if (heartbeatTimer) {
+                clearInterval(heartbeatTimer);
+
+                heartbeatTimer = null;
+            }
+        };
+
+        const renewLease = () => {
+            if (isInterrupted() || taskInQueue.status !== TaskInQueueStatus.Running) {
+                stopHeartbeat();
+                return;
+            }
+
+            taskInQueue.leaseExpiresAt = Date.now() + this._leaseDuration;
+
+            let isRenewed = true;
+            try {
+                isRenewed = this.renewLease(this.toTaskSnapshot(taskInQueue));
+            }
+            catch (error) {
+                // try again with next heartbeat
+                console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.executeTask(renewLease)", error);
+            }
+
+            if (isRenewed) {
+                return;
+            }
+
+            // lease expired and task has been taken over by someone else,
+            // so the result of the current attempt has to be ignored
+            stopHeartbeat();
+
+            taskInQueue.abortController = null;
+            this.releaseSlot(taskInQueue);
+            currentAttempt!.endedAt = new Date();
+
+            this._tasks.delete(taskInQueue.id);
+            this.releaseIdempotencyKey(taskInQueue);
+
+            abortController.abort();
+        };
+
+        const getDuration = () => {
+            return currentAttempt ?
+                currentAttempt.endedAt.getTime() - currentAttempt.startedAt.getTime() :
+                null;
+        };
+
+        const handleError = (error: any) => {
+            if (isInterrupted()) {
+                return;
+            }
+
+            this.releaseSlot(taskInQueue);
+
+            if (currentAttempt) {
+                currentAttempt.endedAt = new Date();
+                currentAttempt.error = error;
+            }
+
+            if (isCancelled()) {
+                return;  // cancelled tasks are never retried
+            }
+
+            if (!isStopped() && currentAttempt) {
+                this.recordAttempt(taskInQueue, currentAttempt, true);
+            }
+
+            const willRetry = shouldRetry(error);
+
+            if (!isStopped()) {
+                // retry later or give up
+                taskInQueue.status = willRetry ? TaskInQueueStatus.Queued : TaskInQueueStatus.Failed;
+            }
+            if (willRetry) {
+                this.addToQueue(taskInQueue);
+            }
+
+            this.getErrorHandlers().forEach((handler) => {
+                try {
+                    handler({
+                        "attempt": taskInQueue.attempt,
+                        "data": options.data,
+                        error,
+                        "id": taskInQueue.id,
+                        key
+                    });
+                }
+                catch (error2) {
+                    console.error("[ERROR]", "@egomobile/queue", "MemoryQueueStorage.executeTask(handleError)", error2);
+                }
+            });
+
+            const eventContext: IQueueTaskEventContext = {
+                ...this.toEventContext(taskInQueue),
+                "duration": getDuration(),
+                error
+            };
+
+            if (willRetry) {
+                taskInQueue.dueAt = Date.now() + getRetryDelay(retry, taskInQueue.attempt);
+
+                this.notifyTaskChanged(taskInQueue);
+                this.scheduleDispatch();
+
+                this.emit("retrying", eventContext);
+            }
+            else if (taskInQueue.status === TaskInQueueStatus.Failed) {
+                this.moveToDeadLetters(taskInQueue, error);
+
+                this.emit("failed", eventContext);
+            }
+            else {
+                this.notifyTaskChanged(taskInQueue);
+            }
+        };
+
+        currentAttempt = {
+            "attempt": ++taskInQueue.attempt,
+            "endedAt": new Date(),
+            "startedAt": new Date()
+        };
+        taskInQueue.attempts.push(currentAttempt);
+
+        taskInQueue.abortController = abortController;
+
+        let parentResults: Nilable<Record<string, any>>;
+        if (options.flow?.dependsOn?.length) {
+            parentResults = {};
+
+            Object.entries(taskInQueue.parents || {}).forEach(([name, parent]) => {
+                if (parent.status === "succeeded") {
+                    parentResults![name] = parent.result;
+                }
+            });
+        }
+
+        const context: IQueueExecutionHandlerContext = {
+            "attempt": currentAttempt.attempt,
+            "data": {
+                ...data
+            },
+            parentResults,
+            "signal": abortController.signal,
+            "taskKey": key,
+            "traceContext": options.traceContext
+        };
+
+        // the time, the task waited after it became due
+        this.getKeyMetrics(key).wait.observe(
+            Math.max(0, currentAttempt.startedAt.getTime() - Math.max(taskInQueue.queuedAt, taskInQueue.dueAt ?? 0))
+        );
+
+        try {
+            this.removeFromQueue(taskInQueue);
+            taskInQueue.status = TaskInQueueStatus.Running;
+            this._isIdle = false;
+
+            this.notifyTaskChanged(taskInQueue);
+
+            this.emit("started", this.toEventContext(taskInQueue));
+
+            let execution = Promise.all(executionHandlers.map((handler) => {
+                return Promise.resolve(handler(context));
+            }));
+
+            let timeoutTimer: Nilable<NodeJS.Timeout>;
+            if (!isNil(timeout) && timeout > 0) {
+                // a task, which never settles, must not keep its slot forever
+                execution = Promise.race([
+                    execution,
+                    new Promise<never>((resolve, reject) => {
+                        timeoutTimer = setTimeout(() => {
+                            const error = new QueueTaskTimeoutError(taskInQueue.id, key, timeout);
+
+                            abortController.abort();
+                            reject(error);
+                        }, timeout);
+                    })
+                ]);
+            }
+
+            if (this._leaseDuration > 0 && this._heartbeatInterval > 0) {
+                heartbeatTimer = setInterval(renewLease, this._heartbeatInterval);
+            }
+
+            execution
+                .finally(() => {
+                    if (timeoutTimer) {
+                        clearTimeout(timeoutTimer);
+                    }
+
+                    stopHeartbeat();
+                })
+                .then((results) => {
+                    if (isInterrupted()) {
+                        return;
+                    }
+
+                    this.releaseSlot(taskInQueue);
+
+                    currentAttempt!.endedAt = new Date();
+                    if (isCancelled()) {
+                        // already finished
+                    }
+                    else if (isStopped()) {
+                        this.notifyTaskChanged(taskInQueue);
+                    }
+                    else {
+                        taskInQueue.result = results[0];
+
+                        this.recordAttempt(taskInQueue, currentAttempt!, false);
+                        this.finishTask(taskInQueue, TaskInQueueStatus.Succeded);
+
+                        this.emit("succeeded", {
+                            ...this.toEventContext(taskInQueue),
+                            "duration": getDuration(),
+                            "result": taskInQueue.result
+                        });
+                    }
+                })
+                .catch(handleError);
+        }
+        catch (error: any) {
+            handleError(error);
+        }
+    }
+
+    private waitForRunningTasks(timeout: Nilable<number>): Promise<void> {
+        return new Promise((resolve) => {
+            if (this._runningCount < 1) {
+                resolve();
+
+                return;
+            }
+
+            let timer: Nilable<NodeJS.Timeout>;
+
+            const listener = () => {
+                if (timer) {
+                    clearTimeout(timer);
+                }
+
+                resolve();
+            };
+
+            if (!isNil(timeout)) {
+                timer = setTimeout(() => {
+                    this._drainListeners = this._drainListeners.filter((l) => {
+                        return l !== listener;
+                    });
+
+                    resolve();
+                }, timeout);
+            }
+
+            this._drainListeners.push(listener);
+        });
+    }
+
+    /**
+     * Adds a new task synchronously, so subclasses can do this
+     * inside a transaction of their persistent storage.
+     *
+     * @param {IQueueTaskInStorageOptions} options The options.
+     *
+     * @returns {IQueueTaskContext} The context of the new task or the one of its duplicate.
+     */
+    protected addTask(options: IQueueTaskInStorageOptions): IQueueTaskContext {
+        const duplicateTaskId = this.findDuplicateTaskId(options);
+        if (!isNil(duplicateTaskId)) {
+            return {
+                "id": duplicateTaskId,
+                "isDuplicate": true
+            };
+        }
+
+        const id = this.createTaskId();
+
+        const taskInQueue: ITaskInQueue = {
+            "attempt": 0,
+            "attempts": [],
+            "createdAt": new Date(),
+            "dueAt": options.runAt?.getTime(),
+            id,
+            options,
+            "queuedAt": Date.now(),
+            "sequence": -1,
+            "status": TaskInQueueStatus.Queued
+        };
+
+        // the task must not be executed, if it cannot be persisted,
+        // so errors are not caught by notifyTaskChanged() here
+        this.onTaskChanged(this.toTaskSnapshot(taskInQueue));
+
+        this._tasks.set(id, taskInQueue);
+        this.addToQueue(taskInQueue);
+        this.trackIdempotencyKey(taskInQueue);
+
+        this.scheduleDispatch();
+
+        this.emit("enqueued", this.toEventContext(taskInQueue));
+
+        return {
+            id
+        };
+    }
+
+    /**
+     * Is invoked, before a queued task is executed, and checks if it can be executed by this instance.
+     *
+     * If it returns `false`, the task is removed from this storage, because it is handled by someone else,
+     * e.g. by another process, which shares the same persistent storage.
+     *
+     * @param {IMemoryQueueStorageTask} task The snapshot of the task.
+     *
+     * @returns {boolean} A value, which indicates if task can be executed or not.
+     */
+    protected claimTask(task: IMemoryQueueStorageTask): boolean {
+        return true;
+    }
+
+    /**
+     * Creates a new and unique ID for a task.
+     *
+     * @returns {string} The new ID.
+     */
+    protected createTaskId(): string {
+        return String(this._nextId++);
+    }
+
+    /**
+     * Returns the number of tasks, which can be started, before the global concurrency is reached.
+     *
+     * @returns {number} The number of free slots, which is `Infinity`, if there is no global limit.
+     */
+    protected getFreeSlotCount(): number {
+        const globalLimit = this._concurrency.global;
+
+        return isNil(globalLimit) ?
+            Infinity :
+            Math.max(0, globalLimit - this._runningCount);
+    }
+
+    /**
+     * Returns the IDs of all tasks, which are known by this instance and are not finished yet.
+     *
+     * @returns {string[]} The list of IDs.
+     */
+    protected getPendingTaskIds(): string[] {
+        return [...this._tasks.keys()];
+    }
+
+    /**
+     * Returns snapshots of all tasks, which are not finished yet or are part of the dead-letter area.
+     *
+     * @returns {IMemoryQueueStorageTask[]} The list of snapshots.
+     */
+    protected getTaskSnapshots(): IMemoryQueueStorageTask[] {
+        return [...this._tasks.values(), ...this._deadLetterTasks].map((t) => {
+            return this.toTaskSnapshot(t);
+        });
+    }
+
+    /**
+     * Checks if a task, which stalled, has to be moved to the dead-letter area.
+     *
+     * @param {number} stalledCount The number of times, the task stalled, including the current one.
+     *
+     * @returns {boolean} A value, which indicates if task stalled too often or not.
+     */
+    protected hasStalledTooOften(stalledCount: number): boolean {
+        return stalledCount > this._maxStalledCount;
+    }
+
+    /**
+     * Is invoked, after a task with an idempotency key has been finished, so that subclasses
+     * can reject duplicates of other instances, until `idempotencyRetention` has been elapsed.
+     *
+     * @param {IMemoryQueueStorageTask} task The snapshot of the task.
+     * @param {number} expiresAt The time, in milliseconds since epoch, the key expires.
+     */
+    protected onIdempotencyKeyRetained(task: IMemoryQueueStorageTask, expiresAt: number): void {
+        // can be overwritten by subclasses
+    }
+
+    /**
+     * Is invoked, after the state of a task has been changed.
+     *
+     * @param {IMemoryQueueStorageTask} task The snapshot of the task.
+     */
+    protected onTaskChanged(task: IMemoryQueueStorageTask): void {
+        // can be overwritten by subclasses
+    }
+
+    /**
+     * Is invoked, after a task of a flow has been finished, so that subclasses can update
+     * the `parents` of its dependent tasks, which are not known by this instance.
+     *
+     * @param {IMemoryQueueStorageTask} task The snapshot of the task.
+     */
+    protected onFlowTaskFinished(task: IMemoryQueueStorageTask): void {
+        // can be overwritten by subclasses
+    }
+
+    /**
+     * Is invoked, after a task has been removed, because it succeeded or has been purged.
+     *
+     * @param {string} id The ID of the task.
+     */
+    protected onTaskRemoved(id: string): void {
+        // can be overwritten by subclasses
+    }
+
+    /**
+     * Is invoked by heartbeats, while a task is running, and renews its lease.
+     *
+     * If it returns `false`, the lease has expired and the task has been taken over by someone else,
+     * so it is removed from this storage and the result of the current attempt is ignored.
+     *
+     * @param {IMemoryQueueStorageTask} task The snapshot of the task with the new `leaseExpiresAt` value.
+     *
+     * @returns {boolean} A value, which indicates if lease has been renewed or not.
+     */
+    protected renewLease(task: IMemoryQueueStorageTask): boolean {
+        return true;
+    }
+
+    /**
+     * Restores tasks, which have been persisted before, e.g. after a restart of the process.
+     *
+     * Tasks with `"queued"` status are queued again, tasks with `"failed"` status are moved to dead-letter area.
+     * Tasks with `"running"` status are treated as stalled, because their worker crashed, and are queued again
+     * or moved to dead-letter area, if they stalled too often. All other tasks and tasks with known IDs are ignored,
+     * except finished parents of known queued tasks, which are merged.
+     *
+     * This method does not dispatch the restored tasks, which is done by `enqueueRemainingTasks()`, e.g.
+     *
+     * @param {IMemoryQueueStorageTask[]} tasks The snapshots of the tasks.
+     */
+    protected restoreTasks(tasks: IMemoryQueueStorageTask[]): void {
+        tasks.forEach((task) => {
+            const taskInQueue: ITaskInQueue = {
+                "attempt": task.attempt,
+                "attempts": task.attempts,
+                "createdAt": task.createdAt ?? new Date(),
+                "dueAt": task.dueAt,
+                "failedAt": task.failedAt ?? undefined,
+                "id": task.id,
+                "lastError": task.lastError,
+                "options": task.options,
+                "parents": task.parents,
+                "queuedAt": Date.now(),
+                "sequence": -1,
+                "stalledCount": task.stalledCount,
+                "status": TaskInQueueStatus.Queued
+            };
+
+            const knownTask = this._tasks.get(task.id);
+            if (knownTask) {
+                if (knownTask.status === TaskInQueueStatus.Queued && task.parents) {
+                    // parents could have been finished by other instances
+                    knownTask.parents = {
+                        ...task.parents,
+                        ...knownTask.parents
+                    };
+                }
+
+                return;  // already known
+            }
+
+            if (this._deadLetterTasks.some((t) => {
+                return t.id === task.id;
+            })) {
+                return;  // already known
+            }
+
+            let isStalled = false;
+            if (task.status === "running") {
+                isStalled = true;
+                taskInQueue.stalledCount = (task.stalledCount || 0) + 1;
+
+                if (this.hasStalledTooOften(taskInQueue.stalledCount)) {
+                    taskInQueue.failedAt = new Date();
+                    taskInQueue.lastError = new QueueTaskStalledError(task.id, task.options.key, taskInQueue.stalledCount);
+                    taskInQueue.status = TaskInQueueStatus.Failed;
+                }
+            }
+
+            if (taskInQueue.status === TaskInQueueStatus.Failed) {
+                this._deadLetterTasks.push(taskInQueue);
+            }
+            else if (task.status === "queued" || task.status === "running" || task.status === "stopped") {
+                this._tasks.set(taskInQueue.id, taskInQueue);
+                this.addToQueue(taskInQueue);
+                this.trackIdempotencyKey(taskInQueue);
+            }
+            else if (task.status === "failed") {
+                taskInQueue.status = TaskInQueueStatus.Failed;
+
+                this._deadLetterTasks.push(taskInQueue);
+            }
+            else {
+                return;
+            }
+
+            // avoid conflicts with IDs of restored tasks
+            const numericId = Number(task.id);
+            if (Number.isSafeInteger(numericId) && numericId >= this._nextId) {
+                this._nextId = numericId + 1;
+            }
+
+            if (isStalled) {
+                this.emit("stalled", this.toEventContext(taskInQueue));
+
+                if (taskInQueue.status === TaskInQueueStatus.Failed) {
+                    this.emit("failed", {
+                        ...this.toEventContext(taskInQueue),
+                        "error": taskInQueue.lastError
+                    });
+                }
+            }
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async cancelTask(id: any): Promise<boolean> {
+        const taskInQueue = this._tasks.get(String(id));
+
+        if (
+            taskInQueue?.status !== TaskInQueueStatus.Queued &&
+            taskInQueue?.status !== TaskInQueueStatus.Running
+        ) {
+            return false;
+        }
+
+        this.finishTask(taskInQueue, TaskInQueueStatus.Cancelled);
+
+        taskInQueue.abortController?.abort();
+
+        return true;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async cancelTasksByKey(key: string): Promise<number> {
+        const tasksToCancel = [...this._tasks.values()].filter((t) => {
+            return t.options.key === key;
+        });
+
+        let count = 0;
+        for (const taskInQueue of tasksToCancel) {
+            if (await this.cancelTask(taskInQueue.id)) {
+                ++count;
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async dispose(): Promise<void> {
+        this._isStopped = true;
+        this.scheduleNextDueTask(null);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueRemainingTasks(): Promise<IQueueTaskContext[]> {
+        // resume stopped and interrupted tasks
+        this._tasks.forEach((taskInQueue) => {
+            if (taskInQueue.status === TaskInQueueStatus.Stopped) {
+                taskInQueue.status = TaskInQueueStatus.Queued;
+                this.addToQueue(taskInQueue);
+
+                this.notifyTaskChanged(taskInQueue);
+            }
+        });
+
+        const result: IQueueTaskContext[] = this.getQueuedTasks(Date.now()).map((t) => {
+            return {
+                "id": t.id
+            };
+        });
+
+        this._isStopped = false;
+        this.scheduleDispatch();
+
+        return result;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueTask(options: IQueueTaskInStorageOptions): Promise<IQueueTaskContext> {
+        return this.addTask(options);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueTasks(optionsList: IQueueTaskInStorageOptions[]): Promise<IQueueTaskContext[]> {
+        return optionsList.map((options) => {
+            return this.addTask(options);
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getDeadLetterTask(id: any): Promise<Nilable<IQueueDeadLetterTask>> {
+        const deadLetterTask = this._deadLetterTasks.find((t) => {
+            return t.id === String(id);
+        });
+
+        return deadLetterTask ? this.toDeadLetterTask(deadLetterTask) : null;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getDeadLetterTasks(): Promise<IQueueDeadLetterTask[]> {
+        return this._deadLetterTasks.map((t) => {
+            return this.toDeadLetterTask(t);
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getFlowTasks(flowId: string): Promise<IQueueTaskInfo[]> {
+        this.removeExpiredTasks();
+
+        return [...this._tasks.values(), ...this._finishedTasks.values(), ...this._deadLetterTasks]
+            .filter((t) => {
+                return t.options.flow?.id === String(flowId);
+            })
+            .map((t) => {
+                return this.toTaskInfo(t);
+            });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getStats(): Promise<IQueueStats> {
+        const now = Date.now();
+
+        const dueTasks = this.getQueuedTasks(now).filter((t) => {
+            return isNil(t.dueAt) || t.dueAt <= now;
+        });
+
+        const toRateLimitStats = (key: Nilable<string>, rateLimiter: IRateLimiter): IQueueRateLimitStats => {
+            const { limit } = rateLimiter;
+
+            const available = rateLimiter.getAvailable(now);
+            const throttledTasks = available < 1 ?
+                dueTasks.filter((t) => {
+                    return isNil(key) || t.options.key === key;
+                }).length :
+                0;
+
+            return {
+                available,
+                "interval": limit.interval,
+                "isThrottled": throttledTasks > 0,
+                key,
+                "limit": limit.limit,
+                "nextAvailableAt": new Date(rateLimiter.getNextAvailableAt(now)),
+                "strategy": limit.strategy || "sliding-window",
+                throttledTasks
+            };
+        };
+
+        const rateLimits: IQueueRateLimitStats[] = [];
+        if (this._globalRateLimiter) {
+            rateLimits.push(toRateLimitStats(null, this._globalRateLimiter));
+        }
+        Object.entries(this._rateLimitersByKey).forEach(([key, rateLimiter]) => {
+            rateLimits.push(toRateLimitStats(key, rateLimiter));
+        });
+
+        const createStatusCounts = (): Record<QueueTaskStatus, number> => {
+            return {
+                "cancelled": 0,
+                "failed": 0,
+                "queued": 0,
+                "running": 0,
+                "stopped": 0,
+                "succeeded": 0
+            };
+        };
+
+        const byStatus = createStatusCounts();
+        const byKey: Record<string, IQueueKeyStats> = {};
+
+        const getKeyStats = (key: string): IQueueKeyStats => {
+            let keyStats = byKey[key];
+            if (!keyStats) {
+                const metrics = this.getKeyMetrics(key);
+
+                keyStats = {
+                    "byStatus": createStatusCounts(),
+                    "duration": metrics.duration.toStats(),
+                    "inFlight": 0,
+                    "oldestWaitingAge": null,
+                    "throughput": metrics.throughput.toStats(now),
+                    "wait": metrics.wait.toStats()
+                };
+
+                byKey[key] = keyStats;
+            }
+
+            return keyStats;
+        };
+
+        Object.keys(this._metricsByKey).forEach((key) => {
+            getKeyStats(key);
+        });
+
+        this.removeExpiredTasks();
+
+        [...this._tasks.values(), ...this._deadLetterTasks, ...this._finishedTasks.values()].forEach((taskInQueue) => {
+            const status = taskStatuses[taskInQueue.status];
+
+            ++byStatus[status];
+            ++getKeyStats(taskInQueue.options.key).byStatus[status];
+        });
+
+        let oldestWaitingAge: Nilable<number> = null;
+        dueTasks.forEach((taskInQueue) => {
+            if (this.getFlowState(taskInQueue) === "blocked") {
+                return;  // waits for its parents
+            }
+
+            const age = Math.max(0, now - Math.max(taskInQueue.queuedAt, taskInQueue.dueAt ?? 0));
+            const keyStats = getKeyStats(taskInQueue.options.key);
+
+            keyStats.oldestWaitingAge = Math.max(keyStats.oldestWaitingAge ?? 0, age);
+            oldestWaitingAge = Math.max(oldestWaitingAge ?? 0, age);
+        });
+
+        Object.values(byKey).forEach((keyStats) => {
+            keyStats.inFlight = keyStats.byStatus.running;
+        });
+
+        return {
+            byKey,
+            byStatus,
+            "inFlight": byStatus.running,
+            oldestWaitingAge,
+            rateLimits,
+            "throughput": this._throughput.toStats(now)
+        };
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getTaskStatus(id: any): Promise<Nilable<QueueTaskStatus>> {
+        const taskInQueue = this.findTask(id);
+
+        return taskInQueue ? taskStatuses[taskInQueue.status] : null;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async getTask(id: any): Promise<Nilable<IQueueTaskInfo>> {
+        const taskInQueue = this.findTask(id);
+
+        return taskInQueue ? this.toTaskInfo(taskInQueue) : null;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async purgeDeadLetterTasks(ids?: Nilable<any[]>): Promise<number> {
+        const idsToRemove = isNil(ids) ? null : ids.map((id) => {
+            return String(id);
+        });
+
+        const tasksToRemove = this._deadLetterTasks.filter((t) => {
+            return idsToRemove === null || idsToRemove.includes(t.id);
+        });
+
+        this._deadLetterTasks = this._deadLetterTasks.filter((t) => {
+            return !tasksToRemove.includes(t);
+        });
+
+        tasksToRemove.forEach((t) => {
+            this.notifyTaskRemoved(t.id);
+        });
+
+        return tasksToRemove.length;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async requeueDeadLetterTask(id: any): Promise<Nilable<IQueueTaskContext>> {
+        const deadLetterTask = this._deadLetterTasks.find((t) => {
+            return t.id === String(id);
+        });
+        if (!deadLetterTask) {
+            return null;
+        }
+
+        // do not take over the idempotency key of another task
+        const idempotencyKey = toIdempotencyKey(deadLetterTask.options);
+        const activeTaskId = isNil(idempotencyKey) ? null : this._activeIdempotencyKeys.get(idempotencyKey);
+        if (!isNil(activeTaskId)) {
+            return {
+                "id": activeTaskId,
+                "isDuplicate": true
+            };
+        }
+
+        this._deadLetterTasks = this._deadLetterTasks.filter((t) => {
+            return t !== deadLetterTask;
+        });
+
+        // keep the history, but start with a new attempt counter
+        const taskInQueue: ITaskInQueue = {
+            "attempt": 0,
+            "attempts": deadLetterTask.attempts,
+            "createdAt": deadLetterTask.createdAt,
+            "id": deadLetterTask.id,
+            "options": deadLetterTask.options,
+            // results of parents of a flow
+            "parents": deadLetterTask.parents,
+            "queuedAt": Date.now(),
+            "sequence": -1,
+            "status": TaskInQueueStatus.Queued
+        };
+
+        this._tasks.set(taskInQueue.id, taskInQueue);
+        this.addToQueue(taskInQueue);
+        this.trackIdempotencyKey(taskInQueue);
+
+        this.notifyTaskChanged(taskInQueue);
+        this.scheduleDispatch();
+
+        this.emit("enqueued", this.toEventContext(taskInQueue));
+
+        return {
+            "id": taskInQueue.id
+        };
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public setConcurrency(limits: IQueueConcurrencyLimits): void {
+        this._concurrency = {
+            "global": limits.global,
+            "keys": {
+                ...limits.keys
+            }
+        };
+
+        this.scheduleDispatch();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public setPausedKeys(keys: string[]): void {
+        this._pausedKeys = new Set(keys);
+
+        this.scheduleDispatch();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public setRateLimits(limits: IQueueRateLimits): void {
+        // keep the state of limiters, which have not been changed
+        const getRateLimiter = (current: Nilable<IRateLimiter>, limit: Nilable<IQueueRateLimit>) => {
+            if (!limit) {
+                return null;
+            }
+
+            if (current && JSON.stringify(current.limit) === JSON.stringify(limit)) {
+                return current;
+            }
+
+            return createRateLimiter({
+                ...limit
+            });
+        };
+
+        this._globalRateLimiter = getRateLimiter(this._globalRateLimiter, limits.global);
+
+        const rateLimitersByKey: Record<string, IRateLimiter> = {};
+        Object.entries(limits.keys || {}).forEach(([key, limit]) => {
+            const rateLimiter = getRateLimiter(this._rateLimitersByKey[key], limit);
+            if (rateLimiter) {
+                rateLimitersByKey[key] = rateLimiter;
+            }
+        });
+        this._rateLimitersByKey = rateLimitersByKey;
+
+        this.scheduleDispatch();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public setRetryPolicy(policy: Nilable<IQueueRetryPolicy>): void {
+        this._retryPolicy = policy;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async stopAllEnqueuedTasks(options?: Nilable<IQueueStopOptions>): Promise<IQueueStopResult> {
+        this._isStopped = true;
+        this.scheduleNextDueTask(null);
+
+        const drainStartTime = Date.now();
+        if (options?.drain) {
+            await this.waitForRunningTasks(options.timeout);
+        }
+
+        const now = Date.now();
+
+        // tasks, which are not due yet, are kept
+        // and executed after restart
+        const tasksToStop = [...this._tasks.values()].filter((t) => {
+            return t.status === TaskInQueueStatus.Running ||
+                (t.status === TaskInQueueStatus.Queued && (isNil(t.dueAt) || t.dueAt <= now));
+        });
+
+        const interruptedTasks: IQueueTaskContext[] = [];
+
+        tasksToStop.forEach((t) => {
+            if (t.status === TaskInQueueStatus.Running) {
+                const { abortController } = t;
+
+                // ignore the result of the current attempt,
+                // because task is executed again after restart
+                t.abortController = null;
+                this.releaseSlot(t);
+
+                const currentAttempt = t.attempts[t.attempts.length - 1];
+                if (currentAttempt) {
+                    currentAttempt.endedAt = new Date();
+                }
+
+                abortController?.abort();
+
+                interruptedTasks.push({
+                    "id": t.id
+                });
+            }
+
+            this.removeFromQueue(t);
+            t.status = TaskInQueueStatus.Stopped;
+
+            this.notifyTaskChanged(t);
+
+            this.emit("stopped", this.toEventContext(t));
+        });
+
+        if (options?.drain) {
+            this.emit("drained", {
+                "duration": Date.now() - drainStartTime,
+                interruptedTasks
+            });
+        }
+
+        return {
+            interruptedTasks
+        };
     }
 }
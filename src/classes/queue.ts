@@ -13,16 +13,65 @@
 // You should have received a copy of the GNU Lesser General Public License
 // along with this program. If not, see <http://www.gnu.org/licenses/>.
 
-import type { IQueueStorage, IQueueTaskContext, QueueErrorHandler, QueueEvent, QueueTask, SyncQueueStorageProvider } from "../types";
+import crypto from "crypto";
+import { QueueUnknownTaskKeyError, QueueValidationError } from "../errors";
+import type { IQueueBatchExecutionContext, IQueueDeadLetterTask, IQueueErrorHandlerContext, IQueueEventContexts, IQueueExecutionHandlerContext, IQueueFlowInfo, IQueueMetricsOptions, IQueueRateLimit, IQueueRetryPolicy, IQueueStats, IQueueStopOptions, IQueueStopResult, IQueueStorage, IQueueTaskContext, IQueueTaskExecutionContext, IQueueTaskInfo, IQueueTaskInStorageOptions, IQueueTaskSchema, IQueueTraceContext, QueueBatchItemResult, QueueBatchTask, QueueErrorHandler, QueueEvent, QueueEventHandler, QueueFlowFailurePolicy, QueueFlowStatus, QueueMiddleware, QueueStorageEvent, QueueStorageProvider, QueueTask, QueueTaskData, QueueTaskMap, QueueTaskValidator } from "../types";
 import type { Constructor, Func, Nilable } from "../types/internal";
+import { getNextCronDate, ICronExpression, parseCronExpression } from "../utils/cron";
+import { isNil, lifecycleEvents, mergeOptions, validateRetryPolicy } from "../utils/internal";
+import { defaultMetricsPrefix, toPrometheusText } from "../utils/prometheus";
+import { validateRateLimit } from "../utils/rateLimit";
+import { mergeTraceContexts, sanitizeTraceContext, traceContextStorage } from "../utils/trace";
 import { MemoryQueueStorage } from "./memoryQueueStorage";
 
+/**
+ * A task with additional settings, which executes queued items
+ * with the same key at once and can be registered to a `Queue`.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
+ */
+export interface IQueueBatchTaskDefinition<TData extends QueueTaskData = QueueTaskData, TKey extends string = string>
+    extends Omit<IQueueTaskDefinition<TData, TKey>, "action"> {
+    /**
+     * The settings of the batches.
+     */
+    batch: IQueueTaskBatch<TData, TKey>;
+}
+
 /**
  * Options for a `Queue` instance.
  */
 export interface IQueueOptions<TStorage extends IQueueStorage = IQueueStorage> {
     /**
-     * A custom storage or a function, which provides it.
+     * The maximum number of tasks, which can run at the same time.
+     *
+     * If not defined, there is no limit.
+     */
+    concurrency?: Nilable<number>;
+    /**
+     * The maximum number of all tasks, which can be started within an interval.
+     *
+     * If not defined, there is no limit.
+     */
+    rateLimit?: Nilable<IQueueRateLimit>;
+    /**
+     * The default retry policy for all tasks.
+     */
+    retry?: Nilable<IQueueRetryPolicy>;
+    /**
+     * A custom storage instance, or a function, which provides it synchronously
+     * or asynchronously, e.g. after a database connection has been opened.
+     *
+     * An instance can only be used by one queue at the same time.
+     *
+     * Providers are invoked, when the storage is needed the first time, e.g. by `start()`.
+     *
+     * Has priority over `storageClass`.
+     */
+    storage?: Nilable<TStorage | QueueStorageProvider>;
+    /**
+     * The class of a custom storage, if `storage` is not defined.
      *
      * If not defined, a new instance of `MemoryQueueStorage` class is created.
      */
@@ -31,32 +80,433 @@ export interface IQueueOptions<TStorage extends IQueueStorage = IQueueStorage> {
      * One or more arguments for the class contructor of `storageClass`.
      */
     storageClassArgs?: Nilable<any[]>;
+    /**
+     * Settings for the propagation of trace contexts from enqueuing to the execution of tasks.
+     */
+    tracing?: Nilable<IQueueTracingOptions>;
 }
 
 /**
  * Options for `Queue.enqueue()` method.
+ *
+ * @template TData Type of the data.
  */
-export interface IQueueEnqueueOptions {
+export interface IQueueEnqueueOptions<TData extends QueueTaskData = QueueTaskData> {
     /**
      * The optional data to submit.
      */
-    data?: Nilable<Record<string, any>>;
+    data?: Nilable<TData>;
+    /**
+     * The time, in milliseconds, the execution of the task should be deferred.
+     *
+     * Is ignored, if `runAt` is defined.
+     */
+    delay?: Nilable<number>;
+    /**
+     * A unique key, like the ID of a webhook delivery, which prevents that the task is enqueued again,
+     * as long as another one with the same task key and idempotency key is queued, running or
+     * has been finished recently. In this case the context of the existing task is returned.
+     */
+    idempotencyKey?: Nilable<string>;
+    /**
+     * The priority of the task. Tasks with higher values are executed first,
+     * if the number of tasks, which can run at the same time, is limited.
+     *
+     * Default: `0`
+     */
+    priority?: Nilable<number>;
+    /**
+     * A custom retry policy for the task, which overwrites
+     * the settings of the default one of the queue.
+     *
+     * Persistent storages, like `FileQueueStorage` and `SqliteQueueStorage`,
+     * cannot store its `isRetryable` function, so the one of the default policy
+     * is used, after the task has been restored.
+     */
+    retry?: Nilable<IQueueRetryPolicy>;
+    /**
+     * The time, the task should be executed at.
+     */
+    runAt?: Nilable<Date>;
+    /**
+     * The maximum time, in milliseconds, an attempt of the task can run,
+     * before it fails with a `QueueTaskTimeoutError`.
+     */
+    timeout?: Nilable<number>;
+    /**
+     * A custom propagation context, which overwrites the values of the captured one.
+     */
+    traceContext?: Nilable<IQueueTraceContext>;
+}
+
+/**
+ * An item for `Queue.enqueueMany()` method.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
+ */
+export interface IQueueEnqueueManyItem<TData extends QueueTaskData = QueueTaskData, TKey extends string = string>
+    extends IQueueEnqueueOptions<TData> {
+    /**
+     * The key of the task.
+     */
+    key: TKey;
+}
+
+/**
+ * A flow of tasks for `Queue.enqueueFlow()` method.
+ *
+ * @template TTasks Type of the task map.
+ */
+export interface IQueueFlow<TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap> {
+    /**
+     * Defines what happens, if a task fails permanently or is cancelled. Default: `"cancel"`
+     */
+    failurePolicy?: Nilable<QueueFlowFailurePolicy>;
+    /**
+     * The tasks, by unique names.
+     */
+    tasks: Record<string, QueueFlowTask<TTasks>>;
+}
+
+/**
+ * The context of a flow, which has been enqueued.
+ */
+export interface IQueueFlowContext {
+    /**
+     * The ID of the flow.
+     */
+    id: string;
+    /**
+     * The contextes of the tasks, by their names.
+     */
+    tasks: Record<string, IQueueTaskContext>;
+}
+
+/**
+ * A job, which enqueues a task recurringly, while a `Queue` is running.
+ *
+ * @template TTasks Type of the task map.
+ * @template TKey Type of the key.
+ */
+export interface IQueueRecurringJob<
+    TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap,
+    TKey extends QueueTaskKey<TTasks> = QueueTaskKey<TTasks>
+> {
+    /**
+     * A cron expression with 5 fields (minute, hour, day of month, month, day of week),
+     * which defines when the task should be enqueued.
+     *
+     * Cannot be used together with `interval`.
+     */
+    cron?: Nilable<string>;
+    /**
+     * The static data for each occurrence.
+     */
+    data?: Nilable<TTasks[TKey]>;
+    /**
+     * The interval, in milliseconds, the task should be enqueued.
+     *
+     * Cannot be used together with `cron`.
+     */
+    interval?: Nilable<number>;
+    /**
+     * The key of the registered task.
+     */
+    key: TKey;
+    /**
+     * A custom and unique name of the job. Default: `key`
+     */
+    name?: Nilable<string>;
+    /**
+     * Defines what happens, if the previous occurrence is still queued or running.
+     *
+     * Default: `"skip"`
+     */
+    overlap?: Nilable<QueueRecurringJobOverlapPolicy>;
+}
+
+/**
+ * Settings for the batches of a `IQueueBatchTaskDefinition`.
+ *
+ * Each item occupies a slot of `concurrency`, while it is waiting for its batch,
+ * so the concurrency of the task should not be lower than `maxSize`.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
+ */
+export interface IQueueTaskBatch<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> {
+    /**
+     * The function to execute for a batch.
+     */
+    action: QueueBatchTask<TData, TKey>;
+    /**
+     * The maximum number of items of a batch.
+     */
+    maxSize: number;
+    /**
+     * The maximum time, in milliseconds, the first item of a batch waits for more items.
+     *
+     * Default: `0`
+     */
+    maxWait?: Nilable<number>;
+}
+
+/**
+ * A task with additional settings, which can be registered to a `Queue`.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
+ */
+export interface IQueueTaskDefinition<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> {
+    /**
+     * The function to execute.
+     */
+    action: QueueTask<TData, TKey>;
+    /**
+     * The maximum number of tasks with this key, which can run at the same time.
+     *
+     * If not defined, there is no limit.
+     */
+    concurrency?: Nilable<number>;
+    /**
+     * One or more middlewares, which are executed after the ones of the queue.
+     */
+    middlewares?: Nilable<QueueMiddleware<TData, TKey>[]>;
+    /**
+     * The maximum number of tasks with this key, which can be started within an interval,
+     * e.g. to respect the quota of a third-party API.
+     *
+     * If not defined, there is no limit.
+     */
+    rateLimit?: Nilable<IQueueRateLimit>;
+    /**
+     * The maximum time, in milliseconds, an attempt of a task with this key can run,
+     * before it fails with a `QueueTaskTimeoutError`.
+     *
+     * Can be overwritten by `timeout` of `IQueueEnqueueOptions`.
+     */
+    timeout?: Nilable<number>;
+    /**
+     * A function or a schema, like one of `zod` module, which validates
+     * the data of a task, before it is enqueued.
+     */
+    validator?: Nilable<QueueTaskValidator | IQueueTaskSchema<TData>>;
+}
+
+/**
+ * Settings for the propagation of trace contexts.
+ *
+ * The context of `Queue.runWithTraceContext()` is always captured, when a task is enqueued,
+ * and is active, while the task is executed.
+ *
+ * @example
+ * ```
+ * import { context, propagation, ROOT_CONTEXT, trace } from "@opentelemetry/api";
+ *
+ * const queue = new Queue({
+ *   tracing: {
+ *     capture: () => {
+ *       const carrier: Record<string, string> = {};
+ *       propagation.inject(context.active(), carrier);
+ *
+ *       return {
+ *         traceparent: carrier.traceparent,
+ *         tracestate: carrier.tracestate
+ *       };
+ *     },
+ *     restore: (traceContext, action) => {
+ *       const parentContext = propagation.extract(ROOT_CONTEXT, traceContext);
+ *
+ *       return context.with(parentContext, action);
+ *     }
+ *   }
+ * });
+ * ```
+ */
+export interface IQueueTracingOptions {
+    /**
+     * Captures the current propagation context, when a task is enqueued.
+     *
+     * @returns {Nilable<IQueueTraceContext>} The context, if available.
+     */
+    capture?(): Nilable<IQueueTraceContext>;
+    /**
+     * Restores a propagation context around the execution of a task.
+     *
+     * @param {IQueueTraceContext} traceContext The context, the task has been enqueued with.
+     * @param {Function} action The action, which executes the task.
+     *
+     * @returns {T} The result of `action`.
+     */
+    restore?<T>(traceContext: IQueueTraceContext, action: () => T): T;
+}
+
+/**
+ * Options for `Queue.waitFor()` method.
+ */
+export interface IQueueWaitForOptions {
+    /**
+     * The interval, in milliseconds, the status of the task is checked.
+     *
+     * Default: `100`
+     */
+    interval?: Nilable<number>;
+    /**
+     * The maximum time, in milliseconds, to wait.
+     *
+     * If not defined, there is no limit.
+     */
+    timeout?: Nilable<number>;
 }
 
+/**
+ * The arguments for `Queue.enqueue()` method after the key.
+ *
+ * `options` with `data` are required, if the type of the data has required properties.
+ *
+ * @template TData Type of the data.
+ */
+export type QueueEnqueueArguments<TData extends QueueTaskData = QueueTaskData> =
+    Record<string, never> extends TData ?
+    [options?: Nilable<IQueueEnqueueOptions<TData>>] :
+    [options: IQueueEnqueueOptions<TData> & { data: TData; }];
+
+/**
+ * An item for `Queue.enqueueMany()` method.
+ *
+ * `data` is required, if the type of the data has required properties.
+ *
+ * @template TTasks Type of the task map.
+ */
+export type QueueEnqueueManyItem<TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap> = {
+    [TKey in QueueTaskKey<TTasks>]: Record<string, never> extends TTasks[TKey] ?
+        IQueueEnqueueManyItem<TTasks[TKey], TKey> :
+        IQueueEnqueueManyItem<TTasks[TKey], TKey> & { data: TTasks[TKey]; };
+}[QueueTaskKey<TTasks>];
+
+/**
+ * A task of an `IQueueFlow`.
+ *
+ * @template TTasks Type of the task map.
+ */
+export type QueueFlowTask<TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap> = QueueEnqueueManyItem<TTasks> & {
+    /**
+     * The names of the tasks of the same flow, which have to be finished,
+     * before the task can be executed.
+     */
+    dependsOn?: Nilable<string[]>;
+};
+
+/**
+ * Defines what happens, if the previous occurrence of a recurring job is still queued or running:
+ *
+ * - `"cancel"`: cancel the previous occurrence and enqueue the new one
+ * - `"queue"`: enqueue the new occurrence anyway
+ * - `"skip"`: do not enqueue the new occurrence
+ */
+export type QueueRecurringJobOverlapPolicy = "cancel" | "queue" | "skip";
+
+/**
+ * A key of a task of a `QueueTaskMap`.
+ *
+ * @template TTasks Type of the task map.
+ */
+export type QueueTaskKey<TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap> = Extract<keyof TTasks, string>;
+
 /**
  * A list of tasks to register, organized as dictionary.
+ *
+ * @template TTasks Type of the task map.
  */
-export type QueueTasksToRegisterDictionary = Record<string, QueueTask>;
+export type QueueTasksToRegisterDictionary<TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap> = {
+    [TKey in QueueTaskKey<TTasks>]?: QueueTaskToRegisterValue<TTasks[TKey], TKey>;
+};
 
 /**
  * A single task to register, organized as array.
+ *
+ * @template TTasks Type of the task map.
+ */
+export type QueueTaskToRegister<TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap> = {
+    [TKey in QueueTaskKey<TTasks>]: [TKey, QueueTaskToRegisterValue<TTasks[TKey], TKey>];
+}[QueueTaskKey<TTasks>];
+
+/**
+ * A possible value for a task, which should be registered to a `Queue`.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
  */
-export type QueueTaskToRegister = [string, QueueTask];
+export type QueueTaskToRegisterValue<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> =
+    QueueTask<TData, TKey> | IQueueTaskDefinition<TData, TKey> | IQueueBatchTaskDefinition<TData, TKey>;
 
 /**
  * A possible value with tasks, which should be registers to a `Queue` by keys.
+ *
+ * @template TTasks Type of the task map.
  */
-export type QueueTasksToRegister = QueueTasksToRegisterDictionary | QueueTaskToRegister[];
+export type QueueTasksToRegister<TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap> =
+    QueueTasksToRegisterDictionary<TTasks> | QueueTaskToRegister<TTasks>[];
+
+interface IBatchItem {
+    context: IQueueTaskExecutionContext;
+    reject: (reason: any) => void;
+    resolve: (value: any) => void;
+}
+
+interface IBatchState {
+    items: IBatchItem[];
+    timer: Nilable<NodeJS.Timeout>;
+}
+
+interface IEventHandlerEntry {
+    handler: Func;
+    isOnce: boolean;
+}
+
+interface IRecurringJobState {
+    cron: Nilable<ICronExpression>;
+    job: IQueueRecurringJob<any>;
+    lastTaskId?: any;
+    name: string;
+    timer?: Nilable<NodeJS.Timeout>;
+}
+
+interface IStorageHandlerEntry {
+    event: QueueStorageEvent;
+    handler: Func;
+}
+
+const flowFailurePolicies: QueueFlowFailurePolicy[] = ["cancel", "continue"];
+const recurringJobOverlapPolicies: QueueRecurringJobOverlapPolicy[] = ["cancel", "queue", "skip"];
+// storages, which are already attached to a queue
+const storagesInUse = new WeakSet<IQueueStorage>();
+
+function sortFlowTasks(tasks: Record<string, QueueFlowTask>): string[] {
+    const sortedNames: string[] = [];
+    const visitingNames = new Set<string>();
+
+    const visit = (name: string) => {
+        if (sortedNames.includes(name)) {
+            return;
+        }
+        if (visitingNames.has(name)) {
+            throw new Error(`Flow contains a circular dependency at task ${name}`);
+        }
+
+        visitingNames.add(name);
+        (tasks[name].dependsOn || []).forEach(visit);
+        visitingNames.delete(name);
+
+        // parents first
+        sortedNames.push(name);
+    };
+
+    Object.keys(tasks).forEach(visit);
+
+    return sortedNames;
+}
 
 /**
  * A queue / task manager.
@@ -91,10 +541,22 @@ export type QueueTasksToRegister = QueueTasksToRegisterDictionary | QueueTaskToR
  * main().catch(console.error);
  * ```
  */
-export class Queue {
-    private readonly _errorHandlers: QueueErrorHandler[] = [];
+export class Queue<TTasks extends Record<keyof TTasks, QueueTaskData> = QueueTaskMap> {
+    private readonly _batches: Record<string, IBatchState> = {};
+    private readonly _concurrency: Nilable<number>;
+    private readonly _eventHandlers: Partial<Record<QueueEvent, IEventHandlerEntry[]>> = {};
     private _isRunning: boolean = false;
-    private readonly _tasks: Record<string, QueueTask> = {};
+    private readonly _middlewares: QueueMiddleware[] = [];
+    private _pausedKeys = new Set<string>();
+    private readonly _rateLimit: Nilable<IQueueRateLimit>;
+    private readonly _recurringJobs: IRecurringJobState[] = [];
+    private readonly _retry: Nilable<IQueueRetryPolicy>;
+    private _storage: Nilable<IQueueStorage>;
+    private _storageHandlers: Nilable<IStorageHandlerEntry[]>;
+    private _storageInitializer: Nilable<Promise<IQueueStorage>>;
+    private readonly _storageProvider: Nilable<QueueStorageProvider>;
+    private readonly _tasks: Record<string, IQueueTaskDefinition | IQueueBatchTaskDefinition> = {};
+    private readonly _tracing: Nilable<IQueueTracingOptions>;
 
     /**
      * Initializes a new instance of that class.
@@ -102,133 +564,1298 @@ export class Queue {
      * @param {Nilable<IQueueOptions>} [options] Custom options.
      */
     public constructor(options?: Nilable<IQueueOptions>) {
+        this._concurrency = options?.concurrency;
+        this._rateLimit = options?.rateLimit;
+        if (!isNil(this._rateLimit)) {
+            validateRateLimit(this._rateLimit, "options.rateLimit");
+        }
+        this._retry = options?.retry;
+        if (!isNil(this._retry)) {
+            validateRetryPolicy(this._retry, "options.retry");
+        }
+        this._tracing = options?.tracing;
+
+        // storage
+        const storage = options?.storage;
         const storageClass = options?.storageClass || MemoryQueueStorage;
         const storageClassArgs = options?.storageClassArgs || [];
+        if (isNil(storage)) {
+            this.setupStorage(new storageClass(...storageClassArgs));
+        }
+        else if (typeof storage === "function") {
+            this._storageProvider = storage;
+        }
+        else if (typeof storage === "object") {
+            this.setupStorage(storage);
+        }
+        else {
+            throw new TypeError("options.storage must be of type object or function");
+        }
+    }
 
-        // storage
-        {
-            const storage = new storageClass(...storageClassArgs);
+    private addEventHandler(event: QueueEvent, handler: Func, isOnce: boolean) {
+        if (event !== "error" && !lifecycleEvents.includes(event)) {
+            throw new TypeError(`${event} is no valid value for event argument`);
+        }
 
-            this.getStorage = () => {
-                return storage;
-            };
+        if (typeof handler !== "function") {
+            throw new TypeError("handler must be of type function");
         }
 
-        this.init();
+        let entries = this._eventHandlers[event];
+        if (!entries) {
+            entries = [];
+
+            this._eventHandlers[event] = entries;
+        }
+
+        entries.push({
+            handler,
+            isOnce
+        });
     }
 
-    private getErrorHandlers(): QueueErrorHandler[] {
-        return [...this._errorHandlers];
+    private emit<TEvent extends QueueEvent>(event: TEvent, context: IQueueEventContexts[TEvent]) {
+        const entries = this._eventHandlers[event as QueueEvent] || [];
+
+        // handlers of once() are invoked only one time
+        this._eventHandlers[event as QueueEvent] = entries.filter((entry) => {
+            return !entry.isOnce;
+        });
+
+        entries.forEach(({ handler }, index) => {
+            const handleInnerError = (error2: any) => {
+                console.error("[ERROR]", "@egomobile/queue", "Queue.emit()", event, index, error2);
+            };
+
+            try {
+                Promise.resolve(
+                    handler(context)
+                ).catch(handleInnerError);
+            }
+            catch (error2) {
+                handleInnerError(error2);
+            }
+        });
     }
 
-    private readonly getStorage: SyncQueueStorageProvider;
+    private detachStorage() {
+        const storage = this._storage;
+        const handlers = this._storageHandlers;
+        if (!storage || !handlers || typeof storage.off !== "function") {
+            return;  // cannot be detached
+        }
 
-    private init() {
-        const { storage } = this;
+        handlers.forEach(({ event, handler }) => {
+            storage.off!(event, handler);
+        });
 
-        // handle errors
-        storage.on("error", (error) => {
-            this.getErrorHandlers().forEach((handler, index) => {
-                const handleInnerError = (error2: any) => {
-                    console.error("[ERROR]", "@egomobile/queue", "Queue.init(storage.on(error))", index, error2);
+        this._storageHandlers = null;
+        storagesInUse.delete(storage);
+    }
+
+    private emitError(context: IQueueErrorHandlerContext) {
+        this.emit("error", context);
+    }
+
+    private addToBatch(key: string, batch: IQueueTaskBatch, context: IQueueTaskExecutionContext): Promise<any> {
+        return new Promise((resolve, reject) => {
+            let state = this._batches[key];
+            if (!state) {
+                state = {
+                    "items": [],
+                    "timer": null
                 };
 
-                try {
-                    Promise.resolve(
-                        handler({
-                            error
-                        })
-                    ).catch(handleInnerError);
-                }
-                catch (error2) {
-                    handleInnerError(error2);
+                this._batches[key] = state;
+            }
+
+            state.items.push({
+                context,
+                reject,
+                resolve
+            });
+
+            if (state.items.length >= batch.maxSize) {
+                this.flushBatch(key, batch);
+            }
+            else if (!state.timer) {
+                state.timer = setTimeout(() => {
+                    this.flushBatch(key, batch);
+                }, batch.maxWait ?? 0);
+            }
+        });
+    }
+
+    private captureTraceContext(customContext: Nilable<IQueueTraceContext>): Nilable<IQueueTraceContext> {
+        const currentContext = traceContextStorage.getStore();
+
+        let capturedContext: Nilable<IQueueTraceContext>;
+        if (typeof this._tracing?.capture === "function") {
+            capturedContext = this._tracing.capture();
+
+            if (!isNil(capturedContext)) {
+                capturedContext = sanitizeTraceContext(capturedContext, "Captured trace context");
+            }
+        }
+
+        if (!isNil(customContext)) {
+            customContext = sanitizeTraceContext(customContext, "options.traceContext");
+        }
+
+        return mergeTraceContexts(currentContext, capturedContext, customContext);
+    }
+
+    private async createTaskInStorageOptions(key: string, options: Nilable<IQueueEnqueueOptions>): Promise<IQueueTaskInStorageOptions> {
+        const task = this._tasks[key];
+        if (!task) {
+            throw new Error(`No task found for key ${String(key)}`);
+        }
+
+        const delay = options?.delay;
+        const idempotencyKey = options?.idempotencyKey;
+        const priority = options?.priority;
+        const retry = options?.retry;
+        let runAt = options?.runAt;
+        const timeout = options?.timeout ?? task.timeout;
+
+        if (!isNil(idempotencyKey) && typeof idempotencyKey !== "string") {
+            throw new TypeError("options.idempotencyKey must be of type string");
+        }
+
+        if (!isNil(priority) && typeof priority !== "number") {
+            throw new TypeError("options.priority must be of type number");
+        }
+
+        if (!isNil(runAt)) {
+            if (!(runAt instanceof Date)) {
+                throw new TypeError("options.runAt must be instance of Date");
+            }
+        }
+        else if (!isNil(delay)) {
+            if (typeof delay !== "number") {
+                throw new TypeError("options.delay must be of type number");
+            }
+
+            runAt = new Date(Date.now() + delay);
+        }
+
+        if (!isNil(timeout) && typeof timeout !== "number") {
+            throw new TypeError("options.timeout must be of type number");
+        }
+
+        if (!isNil(retry)) {
+            validateRetryPolicy(retry, "options.retry");
+        }
+
+        const traceContext = this.captureTraceContext(options?.traceContext);
+
+        const data = await this.validateData(key, task, options?.data || {});
+
+        return {
+            data,
+            idempotencyKey,
+            key,
+            priority,
+            "retry": mergeOptions(this._retry, retry),
+            runAt,
+            timeout,
+            traceContext
+        };
+    }
+
+    private async enqueueTask(key: string, options: Nilable<IQueueEnqueueOptions>): Promise<IQueueTaskContext> {
+        const storage = await this.initStorage();
+
+        return Promise.resolve(
+            storage.enqueueTask(
+                await this.createTaskInStorageOptions(key, options)
+            )
+        );
+    }
+
+    private async enqueueTaskList(optionsList: IQueueTaskInStorageOptions[]): Promise<IQueueTaskContext[]> {
+        const storage = await this.initStorage();
+
+        if (typeof storage.enqueueTasks === "function") {
+            return Promise.resolve(storage.enqueueTasks(optionsList));
+        }
+
+        // fallback: one by one
+        const contextes: IQueueTaskContext[] = [];
+        for (const options of optionsList) {
+            contextes.push(
+                await Promise.resolve(storage.enqueueTask(options))
+            );
+        }
+
+        return contextes;
+    }
+
+    private async executeBatch(key: string, batch: IQueueTaskBatch, items: IBatchItem[]) {
+        const rejectAll = (error: any) => {
+            items.forEach((item) => {
+                item.reject(error);
+            });
+        };
+
+        let results: Nilable<QueueBatchItemResult[]>;
+        try {
+            const context: IQueueBatchExecutionContext = {
+                "items": items.map((item) => {
+                    return item.context;
+                }),
+                key
+            };
+
+            results = await batch.action(context);
+        }
+        catch (error) {
+            rejectAll(error);
+            return;
+        }
+
+        if (isNil(results)) {
+            items.forEach((item) => {
+                item.resolve(undefined);
+            });
+        }
+        else if (!Array.isArray(results) || results.length !== items.length) {
+            rejectAll(new TypeError(`Batch task ${key} must return one result for each item`));
+        }
+        else {
+            items.forEach((item, index) => {
+                const result = results![index];
+
+                if (result?.status === "fulfilled") {
+                    item.resolve(result.value);
+                }
+                else if (result?.status === "rejected") {
+                    item.reject(result.reason);
+                }
+                else {
+                    item.reject(new TypeError(`Result #${index} of batch task ${key} is invalid`));
+                }
+            });
+        }
+    }
+
+    private executeTask(key: string, task: IQueueTaskDefinition | IQueueBatchTaskDefinition, context: IQueueTaskExecutionContext): Promise<any> {
+        const middlewares = [...this._middlewares, ...(task.middlewares || [])];
+
+        const invoke = async (index: number, currentContext: IQueueTaskExecutionContext): Promise<any> => {
+            const middleware = middlewares[index];
+            if (!middleware) {
+                // items of batches are executed together
+                return "batch" in task ?
+                    this.addToBatch(key, task.batch, currentContext) :
+                    task.action(currentContext);
+            }
+
+            let isNextCalled = false;
+
+            return middleware(currentContext, (nextContext) => {
+                if (isNextCalled) {
+                    return Promise.reject(new Error("next() has been called multiple times"));
+                }
+                isNextCalled = true;
+
+                return invoke(index + 1, nextContext || currentContext);
+            });
+        };
+
+        const { traceContext } = context;
+        if (isNil(traceContext)) {
+            // do not leak the context of the operation, which triggered the execution
+            return traceContextStorage.exit(() => {
+                return invoke(0, context);
+            });
+        }
+
+        // logs and spans of the task are linked to the operation, which enqueued it
+        const run = () => {
+            return traceContextStorage.run(traceContext, () => {
+                return invoke(0, context);
+            });
+        };
+
+        return typeof this._tracing?.restore === "function" ?
+            Promise.resolve(this._tracing.restore(traceContext, run)) :
+            run();
+    }
+
+    private flushBatch(key: string, batch: IQueueTaskBatch) {
+        const state = this._batches[key];
+        if (!state) {
+            return;
+        }
+
+        delete this._batches[key];
+
+        if (state.timer) {
+            clearTimeout(state.timer);
+        }
+
+        // skip items of cancelled and interrupted tasks
+        const items = state.items.filter((item) => {
+            if (item.context.signal.aborted) {
+                item.reject(new Error(`Task ${key} has been aborted`));
+
+                return false;
+            }
+
+            return true;
+        });
+
+        if (items.length) {
+            this.executeBatch(key, batch, items);
+        }
+    }
+
+    private init() {
+        const { storage } = this;
+
+        const handlers: IStorageHandlerEntry[] = [];
+        const addHandler = (event: QueueStorageEvent, handler: Func) => {
+            storage.on(event, handler);
+
+            handlers.push({
+                event,
+                handler
+            });
+        };
+
+        this._storageHandlers = handlers;
+
+        // handle errors
+        addHandler("error", (context: IQueueErrorHandlerContext) => {
+            this.emitError(context);
+        });
+
+        // forward lifecycle events
+        lifecycleEvents.forEach((event) => {
+            try {
+                addHandler(event, (context: any) => {
+                    this.emit(event, context);
+                });
+            }
+            catch {
+                // storage does not support the event
+            }
+        });
+
+        // handle executions
+        addHandler("execute", ({ attempt, data, parentResults, signal, taskKey, traceContext }: IQueueExecutionHandlerContext) => {
+            if (!this.isRunning) {
+                // the task must not be handled as succeeded
+                throw new Error("Queue is not running");
+            }
+
+            const task = this._tasks[taskKey];
+            if (!task) {
+                // the task must not be handled as succeeded
+                throw new QueueUnknownTaskKeyError(taskKey);
+            }
+
+            return this.executeTask(taskKey, task, {
+                attempt,
+                data,
+                "key": taskKey,
+                parentResults,
+                signal,
+                traceContext
+            });
+        });
+    }
+
+    private initStorage(): Promise<IQueueStorage> {
+        if (!this._storageInitializer) {
+            const initializer = (async () => {
+                if (!this._storage) {
+                    const storage = await Promise.resolve(this._storageProvider!());
+                    if (typeof storage !== "object" || storage === null) {
+                        throw new TypeError("Result of options.storage must be of type object");
+                    }
+
+                    this.setupStorage(storage);
+                }
+                else if (!this._storageHandlers) {
+                    // has been detached by dispose()
+                    this.setupStorage(this._storage);
+                }
+
+                const storage = this._storage!;
+                if (typeof storage.init === "function") {
+                    await Promise.resolve(storage.init());
+                }
+
+                return storage;
+            })();
+
+            // can be retried, if it fails
+            initializer.catch(() => {
+                if (this._storageInitializer === initializer) {
+                    this._storageInitializer = null;
+                }
+            });
+
+            this._storageInitializer = initializer;
+        }
+
+        return this._storageInitializer;
+    }
+
+    private async runRecurringJob(state: IRecurringJobState) {
+        if (!this.isRunning) {
+            return;
+        }
+
+        const { job } = state;
+        const { storage } = this;
+
+        const overlap = job.overlap || "skip";
+        if (overlap !== "queue" && !isNil(state.lastTaskId)) {
+            const status = await Promise.resolve(storage.getTaskStatus!(state.lastTaskId));
+
+            if (status === "queued" || status === "running") {
+                if (overlap === "skip") {
+                    return;  // previous occurrence is still active
+                }
+
+                await Promise.resolve(storage.cancelTask!(state.lastTaskId));
+            }
+        }
+
+        if (!this.isRunning) {
+            return;  // stopped in the meantime
+        }
+
+        const { id } = await this.enqueueTask(job.key, {
+            "data": job.data
+        });
+
+        state.lastTaskId = id;
+    }
+
+    private scheduleRecurringJob(state: IRecurringJobState) {
+        const { cron, job } = state;
+
+        const runAt = cron ?
+            getNextCronDate(cron, new Date()).getTime() :
+            Date.now() + job.interval!;
+
+        const scheduleNext = () => {
+            // setTimeout() does not support delays greater than 2^31 - 1
+            const delay = Math.min(Math.max(0, runAt - Date.now()), 2147483647);
+
+            state.timer = setTimeout(() => {
+                state.timer = null;
+
+                if (Date.now() < runAt) {
+                    scheduleNext();  // not due yet
+                    return;
+                }
+
+                this.scheduleRecurringJob(state);
+
+                this.runRecurringJob(state).catch((error) => {
+                    this.emitError({
+                        error,
+                        "key": state.job.key
+                    });
+                });
+            }, delay);
+        };
+
+        scheduleNext();
+    }
+
+    private startRecurringJobs() {
+        this._recurringJobs.forEach((state) => {
+            if (!state.timer) {
+                this.scheduleRecurringJob(state);
+            }
+        });
+    }
+
+    private stopRecurringJobs() {
+        this._recurringJobs.forEach((state) => {
+            if (state.timer) {
+                clearTimeout(state.timer);
+
+                state.timer = null;
+            }
+        });
+    }
+
+    private setupStorage(storage: IQueueStorage) {
+        if (storagesInUse.has(storage)) {
+            throw new Error("Storage is already used by another queue");
+        }
+
+        this._recurringJobs.forEach((state) => {
+            this.validateOverlapPolicy(storage, state.job.overlap || "skip");
+        });
+
+        this._storage = storage;
+
+        this.init();
+        storagesInUse.add(storage);
+
+        this.updateConcurrency();
+        this.updateRateLimits();
+        if (typeof storage.setRetryPolicy === "function") {
+            storage.setRetryPolicy(this._retry);
+        }
+        if (this._pausedKeys.size) {
+            this.updatePausedKeys(this._pausedKeys);
+        }
+    }
+
+    private updateConcurrency() {
+        const storage = this._storage;
+        if (typeof storage?.setConcurrency !== "function") {
+            return;  // not supported or applied, when storage is available
+        }
+
+        const keys: Record<string, number> = {};
+        Object.entries(this._tasks).forEach(([key, task]) => {
+            if (!isNil(task.concurrency)) {
+                keys[key] = task.concurrency;
+            }
+        });
+
+        storage.setConcurrency({
+            "global": this._concurrency,
+            keys
+        });
+    }
+
+    private updatePausedKeys(pausedKeys: Set<string>) {
+        // otherwise applied, when storage is available
+        const storage = this._storage;
+        if (storage) {
+            if (typeof storage.setPausedKeys !== "function") {
+                throw new Error("Storage does not support pausing of tasks");
+            }
+
+            storage.setPausedKeys([...pausedKeys]);
+        }
+
+        this._pausedKeys = pausedKeys;
+    }
+
+    private updateRateLimits() {
+        const storage = this._storage;
+        if (typeof storage?.setRateLimits !== "function") {
+            return;  // not supported or applied, when storage is available
+        }
+
+        const keys: Record<string, IQueueRateLimit> = {};
+        Object.entries(this._tasks).forEach(([key, task]) => {
+            if (!isNil(task.rateLimit)) {
+                keys[key] = task.rateLimit;
+            }
+        });
+
+        storage.setRateLimits({
+            "global": this._rateLimit,
+            keys
+        });
+    }
+
+    private validateOverlapPolicy(storage: IQueueStorage, overlap: QueueRecurringJobOverlapPolicy) {
+        if (overlap !== "queue" && typeof storage.getTaskStatus !== "function") {
+            throw new Error(`Storage does not support overlap policy ${overlap}`);
+        }
+        if (overlap === "cancel" && typeof storage.cancelTask !== "function") {
+            throw new Error(`Storage does not support overlap policy ${overlap}`);
+        }
+    }
+
+    private async validateData(key: string, task: IQueueTaskDefinition | IQueueBatchTaskDefinition, data: QueueTaskData): Promise<QueueTaskData> {
+        const { validator } = task;
+        if (!validator) {
+            return data;
+        }
+
+        let validData: Nilable<QueueTaskData>;
+        let details: any;
+        try {
+            if (typeof validator === "function") {
+                if (await validator(data)) {
+                    validData = data;
+                }
+            }
+            else {
+                // schemas can normalize data
+                const parsedData = validator.parse(data);
+
+                if (parsedData && typeof parsedData === "object") {
+                    validData = parsedData;
+                }
+            }
+        }
+        catch (error) {
+            details = error;
+        }
+
+        if (!validData) {
+            throw new QueueValidationError(key, data, details);
+        }
+
+        return validData;
+    }
+
+    /**
+     * Cancels a task, which has not been finished yet.
+     *
+     * If the task is running, the `signal` of its execution context is aborted.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * queue.register({
+     *   myTask1: async ({ signal }) => {
+     *     const response = await fetch("https://example.com/", { signal });
+     *
+     *     // ...
+     *   }
+     * });
+     *
+     * // ...
+     *
+     * const { id } = await queue.enqueue('myTask1');
+     *
+     * await queue.cancel(id);
+     * ```
+     *
+     * @param {any} id The ID of the task.
+     *
+     * @returns {Promise<boolean>} The promise, which indicates if task has been cancelled or not.
+     */
+    public async cancel(id: any): Promise<boolean> {
+        const storage = await this.initStorage();
+        if (typeof storage.cancelTask !== "function") {
+            throw new Error("Storage does not support cancellation of tasks");
+        }
+
+        return Promise.resolve(storage.cancelTask(id));
+    }
+
+    /**
+     * Cancels all tasks with a specific key, which have not been finished yet.
+     *
+     * @param {string} key The key of the tasks.
+     *
+     * @returns {Promise<number>} The promise with the number of cancelled tasks.
+     */
+    public async cancelByKey(key: string): Promise<number> {
+        const storage = await this.initStorage();
+        if (typeof storage.cancelTasksByKey !== "function") {
+            throw new Error("Storage does not support cancellation of tasks");
+        }
+
+        return Promise.resolve(storage.cancelTasksByKey(key));
+    }
+
+    /**
+     * Stops the queue, detaches it from its storage and releases the resources
+     * of the storage, like database connections.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    public async dispose(): Promise<void> {
+        await this.stop();
+
+        const storage = this._storage;
+
+        // initialize again on next start
+        this._storageInitializer = null;
+        this.detachStorage();
+
+        if (typeof storage?.dispose === "function") {
+            await Promise.resolve(storage.dispose());
+        }
+    }
+
+    /**
+     * Returns a task from the dead-letter area of the storage.
+     *
+     * @param {any} id The ID of the task.
+     *
+     * @returns {Promise<Nilable<IQueueDeadLetterTask>>} The promise with the task, if found.
+     */
+    public async getDeadLetterTask(id: any): Promise<Nilable<IQueueDeadLetterTask>> {
+        const storage = await this.initStorage();
+        if (typeof storage.getDeadLetterTask !== "function") {
+            throw new Error("Storage does not support dead-letter tasks");
+        }
+
+        return Promise.resolve(storage.getDeadLetterTask(id));
+    }
+
+    /**
+     * Returns all tasks from the dead-letter area of the storage.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * // ...
+     *
+     * for (const task of await queue.getDeadLetterTasks()) {
+     *   console.log("Task", task.id, "failed with", task.lastError);
+     * }
+     * ```
+     *
+     * @returns {Promise<IQueueDeadLetterTask[]>} The promise with the list of tasks.
+     */
+    public async getDeadLetterTasks(): Promise<IQueueDeadLetterTask[]> {
+        const storage = await this.initStorage();
+        if (typeof storage.getDeadLetterTasks !== "function") {
+            throw new Error("Storage does not support dead-letter tasks");
+        }
+
+        return Promise.resolve(storage.getDeadLetterTasks());
+    }
+
+    /**
+     * Returns information about a flow, like its status and the ones of its tasks.
+     *
+     * @param {string} id The ID of the flow.
+     *
+     * @returns {Promise<Nilable<IQueueFlowInfo>>} The promise with the information, if flow is known.
+     */
+    public async getFlow(id: string): Promise<Nilable<IQueueFlowInfo>> {
+        const storage = await this.initStorage();
+        if (typeof storage.getFlowTasks !== "function") {
+            throw new Error("Storage does not support flows");
+        }
+
+        const flowTasks = await Promise.resolve(storage.getFlowTasks(String(id)));
+        if (!flowTasks.length) {
+            return null;
+        }
+
+        const hasStatus = (...statuses: string[]) => {
+            return flowTasks.some((task) => {
+                return statuses.includes(task.status);
+            });
+        };
+
+        let status: QueueFlowStatus;
+        if (hasStatus("queued", "running", "stopped")) {
+            status = "running";
+        }
+        else if (hasStatus("failed")) {
+            status = "failed";
+        }
+        else if (hasStatus("cancelled")) {
+            status = "cancelled";
+        }
+        else {
+            status = "succeeded";
+        }
+
+        return {
+            "id": String(id),
+            status,
+            "tasks": Object.fromEntries(flowTasks.map((task) => {
+                return [task.flow!.name, task];
+            }))
+        };
+    }
+
+    /**
+     * Returns the statistics of the queue in Prometheus text exposition format.
+     *
+     * @example
+     * ```
+     * import express from "express";
+     *
+     * const app = express();
+     * const queue = new Queue();
+     *
+     * app.get("/metrics", async (request, response) => {
+     *   response.type("text/plain; version=0.0.4")
+     *     .send(await queue.getMetrics({ prefix: "my_service_queue" }));
+     * });
+     * ```
+     *
+     * @param {Nilable<IQueueMetricsOptions>} [options] Custom options.
+     *
+     * @returns {Promise<string>} The promise with the metrics.
+     */
+    public async getMetrics(options?: Nilable<IQueueMetricsOptions>): Promise<string> {
+        const prefix = options?.prefix ?? defaultMetricsPrefix;
+        if (typeof prefix !== "string" || !/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(prefix)) {
+            throw new TypeError("options.prefix must be a valid metric name");
+        }
+
+        return toPrometheusText(await this.getStats(), prefix);
+    }
+
+    /**
+     * Returns statistics of the queue.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * // ...
+     *
+     * const { byKey, rateLimits } = await queue.getStats();
+     *
+     * for (const { isThrottled, key } of rateLimits) {
+     *   if (isThrottled) {
+     *     console.log("Tasks of", key ?? "queue", "are throttled");
+     *   }
+     * }
+     *
+     * for (const [key, { byStatus, oldestWaitingAge }] of Object.entries(byKey)) {
+     *   console.log(key, byStatus.queued, "queued tasks, oldest waits", oldestWaitingAge, "ms");
+     * }
+     * ```
+     *
+     * @returns {Promise<IQueueStats>} The promise with the statistics.
+     */
+    public async getStats(): Promise<IQueueStats> {
+        const storage = await this.initStorage();
+        if (typeof storage.getStats !== "function") {
+            throw new Error("Storage does not support statistics");
+        }
+
+        return Promise.resolve(storage.getStats());
+    }
+
+    /**
+     * Returns information about a task, like its status and result.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * // ...
+     *
+     * const { id } = await queue.enqueue('myTask1');
+     *
+     * const task = await queue.getTask(id);
+     * console.log("Status of task", id, "is", task?.status);
+     * ```
+     *
+     * @param {any} id The ID of the task.
+     *
+     * @returns {Promise<Nilable<IQueueTaskInfo>>} The promise with the information, if task is known.
+     */
+    public async getTask(id: any): Promise<Nilable<IQueueTaskInfo>> {
+        const storage = await this.initStorage();
+        if (typeof storage.getTask !== "function") {
+            throw new Error("Storage does not support task lookups");
+        }
+
+        return Promise.resolve(storage.getTask(id));
+    }
+
+    /**
+     * Returns the propagation context of the current asynchronous execution,
+     * e.g. inside `Queue.runWithTraceContext()` or a running task.
+     *
+     * @returns {Nilable<IQueueTraceContext>} The context, if available.
+     */
+    public static getTraceContext(): Nilable<IQueueTraceContext> {
+        return traceContextStorage.getStore();
+    }
+
+    /**
+     * Gets if queue is running or not.
+     *
+     * @returns {boolean} A value, which indicates if queue is running or not.
+     */
+    public get isRunning(): boolean {
+        return this._isRunning;
+    }
+
+    /**
+     * Checks if tasks with a specific key are paused.
+     *
+     * @param {QueueTaskKey<TTasks>} key The key of the task.
+     *
+     * @returns {boolean} A value, which indicates if tasks are paused or not.
+     */
+    public isPaused(key: QueueTaskKey<TTasks>): boolean {
+        return this._pausedKeys.has(key);
+    }
+
+    /**
+     * Removes an event handler.
+     *
+     * @param {QueueEvent} event The name of the known event.
+     * @param {Func} handler The handler to remove.
+     *
+     * @returns {this} This instance.
+     */
+    public off<TEvent extends QueueEvent>(event: TEvent, handler: QueueEventHandler<TEvent>): this;
+    public off(event: QueueEvent, handler: Func): this {
+        const entries = this._eventHandlers[event];
+        if (entries) {
+            const index = entries.findIndex((entry) => {
+                return entry.handler === handler;
+            });
+
+            if (index > -1) {
+                entries.splice(index, 1);
+            }
+        }
+
+        return this;
+    }
+
+    /**
+     * Registers an event handler.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * queue.on("error", ({ error, id, key }) => {
+     *   console.error("Task", id, "(", key, ") failed:", error);
+     * });
+     *
+     * queue.on("succeeded", ({ duration, id }) => {
+     *   console.log("Task", id, "took", duration, "ms");
+     * });
+     * ```
+     *
+     * @param {QueueEvent} event The name of the known event.
+     * @param {Func} handler The handler to register.
+     *
+     * @returns {this} This instance.
+     */
+    public on(event: "error", handler: QueueErrorHandler): this;
+    public on<TEvent extends QueueEvent>(event: TEvent, handler: QueueEventHandler<TEvent>): this;
+    public on(event: QueueEvent, handler: Func): this {
+        this.addEventHandler(event, handler, false);
+
+        return this;
+    }
+
+    /**
+     * Registers an event handler, which is invoked only one time,
+     * or returns a promise, which is resolved with the context of the next event.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * // ...
+     *
+     * await queue.enqueue('myTask1');
+     * await queue.enqueue('myTask2');
+     *
+     * // wait until all tasks have been finished
+     * await queue.once("idle");
+     * ```
+     *
+     * @param {QueueEvent} event The name of the known event.
+     * @param {Func} [handler] The handler to register.
+     *
+     * @returns {this|Promise<any>} This instance or the promise with the context, if no handler is submitted.
+     */
+    public once<TEvent extends QueueEvent>(event: TEvent): Promise<IQueueEventContexts[TEvent]>;
+    public once<TEvent extends QueueEvent>(event: TEvent, handler: QueueEventHandler<TEvent>): this;
+    public once(event: QueueEvent, handler?: Func): this | Promise<any> {
+        if (!handler) {
+            return new Promise((resolve) => {
+                this.addEventHandler(event, resolve, true);
+            });
+        }
+
+        this.addEventHandler(event, handler, true);
+
+        return this;
+    }
+
+    /**
+     * Queues a task.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * /// ... register 'myTask1'
+     *
+     * // enqueue (and execute) without data
+     * await queue.enqueue('myTask1');
+     * // with data
+     * await queue.enqueue('myTask1', {
+     *   data: { foo: 'bar' }
+     * });
+     * // in 24 hours
+     * await queue.enqueue('myTask1', {
+     *   delay: 86400000
+     * });
+     * ```
+     *
+     * @param {TKey} key The key / ID of the task.
+     * @param {QueueEnqueueArguments} [args] Additional and custom options, which are required, if data of the task has required properties.
+     *
+     * @returns {Promise<IQueueTaskContext>} The promise with the context.
+     */
+    public async enqueue<TKey extends QueueTaskKey<TTasks>>(
+        key: TKey,
+        ...args: QueueEnqueueArguments<TTasks[TKey]>
+    ): Promise<IQueueTaskContext> {
+        const [options] = args;
+
+        return this.enqueueTask(key, options);
+    }
+
+    /**
+     * Queues a list of tasks at once.
+     *
+     * If the storage supports it, all tasks are queued atomically.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * /// ... register 'sendMail'
+     *
+     * const contextes = await queue.enqueueMany(
+     *   users.map((user) => {
+     *     return {
+     *       key: 'sendMail',
+     *       data: { to: user.email }
+     *     };
+     *   })
+     * );
+     * ```
+     *
+     * @param {QueueEnqueueManyItem[]} items The items with keys and options of the tasks.
+     *
+     * @returns {Promise<IQueueTaskContext[]>} The promise with the contextes, in the same order as the items.
+     */
+    public async enqueueMany(items: QueueEnqueueManyItem<TTasks>[]): Promise<IQueueTaskContext[]> {
+        if (!Array.isArray(items)) {
+            throw new TypeError("items must be of type array");
+        }
+
+        // validate all items, before anything is queued
+        const optionsList: IQueueTaskInStorageOptions[] = [];
+        for (const item of items as IQueueEnqueueManyItem[]) {
+            optionsList.push(
+                await this.createTaskInStorageOptions(item?.key, item)
+            );
+        }
+
+        if (!optionsList.length) {
+            return [];
+        }
+
+        return this.enqueueTaskList(optionsList);
+    }
+
+    /**
+     * Queues a flow of tasks, which can depend on each other.
+     *
+     * A task is not executed, before all tasks of its `dependsOn` list are finished,
+     * and receives their results as `parentResults` of its execution context.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * queue.register({
+     *   download: async ({ data }) => {
+     *     // ...
+     *   },
+     *   merge: async ({ parentResults }) => {
+     *     const { a, b } = parentResults!;
+     *
+     *     // ...
+     *   }
+     * });
+     *
+     * // ...
+     *
+     * // run "a" and "b" in parallel, then "merged" with their results
+     * const { id } = await queue.enqueueFlow({
+     *   tasks: {
+     *     a: { key: 'download', data: { url: 'https://example.com/a' } },
+     *     b: { key: 'download', data: { url: 'https://example.com/b' } },
+     *     merged: { key: 'merge', dependsOn: ['a', 'b'] }
+     *   }
+     * });
+     *
+     * console.log("Status of flow", id, "is", (await queue.getFlow(id))?.status);
+     * ```
+     *
+     * @param {IQueueFlow} flow The flow.
+     *
+     * @returns {Promise<IQueueFlowContext>} The promise with the context of the flow.
+     */
+    public async enqueueFlow(flow: IQueueFlow<TTasks>): Promise<IQueueFlowContext> {
+        const storage = await this.initStorage();
+        if (typeof storage.getFlowTasks !== "function" || typeof storage.enqueueTasks !== "function") {
+            throw new Error("Storage does not support flows");
+        }
+
+        if (typeof flow?.tasks !== "object" || flow.tasks === null) {
+            throw new TypeError("flow.tasks must be of type object");
+        }
+
+        const failurePolicy = flow.failurePolicy || "cancel";
+        if (!flowFailurePolicies.includes(failurePolicy)) {
+            throw new TypeError(`${failurePolicy} is no valid value for flow.failurePolicy`);
+        }
+
+        const tasks = flow.tasks as Record<string, QueueFlowTask>;
+
+        Object.entries(tasks).forEach(([name, task]) => {
+            if (typeof task !== "object" || task === null) {
+                throw new TypeError(`Task ${name} of flow must be of type object`);
+            }
+
+            if (!isNil(task.idempotencyKey)) {
+                throw new TypeError(`Task ${name} of flow cannot have an idempotencyKey`);
+            }
+
+            if (!isNil(task.dependsOn) && !Array.isArray(task.dependsOn)) {
+                throw new TypeError(`dependsOn of task ${name} of flow must be of type array`);
+            }
+
+            (task.dependsOn || []).forEach((parentName) => {
+                if (!Object.prototype.hasOwnProperty.call(tasks, parentName)) {
+                    throw new Error(`Task ${name} of flow depends on unknown task ${parentName}`);
+                }
+            });
+        });
+
+        const names = sortFlowTasks(tasks);
+        if (!names.length) {
+            throw new TypeError("flow.tasks must contain at least one task");
+        }
+
+        const id = crypto.randomBytes(16).toString("hex");
+
+        const optionsList: IQueueTaskInStorageOptions[] = [];
+        for (const name of names) {
+            const task = tasks[name];
+
+            optionsList.push({
+                ...await this.createTaskInStorageOptions(task.key, task),
+                "flow": {
+                    "dependsOn": task.dependsOn?.length ? [...task.dependsOn] : null,
+                    failurePolicy,
+                    id,
+                    name
                 }
             });
-        });
-
-        // handle executions
-        storage.on("execute", ({ data, taskKey }) => {
-            if (!this.isRunning) {
-                return;
-            }
+        }
 
-            const task = this._tasks[taskKey];
-            if (typeof task !== "function") {
-                return;
-            }
+        // all tasks are enqueued at once, so parents
+        // cannot be finished before their dependents
+        const contextes = await Promise.resolve(storage.enqueueTasks(optionsList));
 
-            return Promise.resolve(task({
-                data,
-                "key": taskKey
-            }));
-        });
+        return {
+            id,
+            "tasks": Object.fromEntries(names.map((name, index) => {
+                return [name, contextes[index]];
+            }))
+        };
     }
 
     /**
-     * Gets if queue is running or not.
+     * Pauses tasks with a specific key, e.g. during an incident: they are enqueued,
+     * but not started, until `resume()` is called. Running tasks are not interrupted.
      *
-     * @returns {boolean} A value, which indicates if queue is running or not.
+     * Tasks with other keys are not affected.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * queue.register({
+     *   sendMail: async ({ data }) => {
+     *     // ...
+     *   }
+     * });
+     *
+     * await queue.start();
+     *
+     * // mail server is down
+     * queue.pause("sendMail");
+     *
+     * // ...
+     *
+     * queue.resume("sendMail");
+     * ```
+     *
+     * @param {QueueTaskKey<TTasks>} key The key of the task.
+     *
+     * @returns {this} This instance.
      */
-    public get isRunning(): boolean {
-        return this._isRunning;
+    public pause(key: QueueTaskKey<TTasks>): this {
+        if (!this._tasks[key]) {
+            throw new Error(`No task found for key ${String(key)}`);
+        }
+
+        this.updatePausedKeys(new Set([...this._pausedKeys, key]));
+
+        return this;
     }
 
     /**
-     * Registers one or more error handlers.
+     * Removes tasks from the dead-letter area of the storage.
      *
-     * @param {QueueStorageEvent} event The name of the known event.
-     * @param {Func} handler The handler to register.
+     * @param {Nilable<any[]>} [ids] The IDs of the tasks to remove. If not defined, all tasks are removed.
      *
-     * @returns {this} This instance.
+     * @returns {Promise<number>} The promise with the number of removed tasks.
      */
-    public on(event: "error", handler: QueueErrorHandler): this;
-    public on(event: QueueEvent, handler: Func): this {
-        if (event === "error") {
-            this._errorHandlers.push(handler as QueueErrorHandler);
-        }
-        else {
-            throw new TypeError(`${event} is no valid value for event argument`);
+    public async purgeDeadLetterTasks(ids?: Nilable<any[]>): Promise<number> {
+        const storage = await this.initStorage();
+        if (typeof storage.purgeDeadLetterTasks !== "function") {
+            throw new Error("Storage does not support dead-letter tasks");
         }
 
-        return this;
+        return Promise.resolve(storage.purgeDeadLetterTasks(ids));
     }
 
     /**
-     * Queues a task.
-     *
-     * @example
-     * ```
-     * const queue = new Queue();
+     * Requeues running tasks of the storage, whose leases have expired,
+     * or moves them to the dead-letter area, if they stalled too often.
      *
-     * /// ... register 'myTask1'
+     * @returns {Promise<IQueueTaskContext[]>} The promise with the contextes of the stalled tasks.
+     */
+    public async recoverStalledTasks(): Promise<IQueueTaskContext[]> {
+        const storage = await this.initStorage();
+        if (typeof storage.recoverStalledTasks !== "function") {
+            throw new Error("Storage does not support leases");
+        }
+
+        return Promise.resolve(storage.recoverStalledTasks());
+    }
+
+    /**
+     * Moves a task from the dead-letter area of the storage back to the queue.
      *
-     * // enqueue (and execute) without data
-     * await queue.enqueue('myTask1');
-     * // with data
-     * await queue.enqueue('myTask1', {
-     *   data: { foo: 'bar' }
-     * });
-     * ```
+     * The task keeps its previous attempts and is retried with the full number of attempts again.
+     * If another task with the same idempotency key is queued or running, the task is not moved
+     * and the context of the other task is returned instead.
      *
-     * @param {string} key The key / ID of the task.
-     * @param {Nilable<IQueueQueueOptions>} [options] Additional and custom options.
+     * @param {any} id The ID of the task.
      *
-     * @returns {Promise<IQueueTaskContext>} The promise with the context.
+     * @returns {Promise<Nilable<IQueueTaskContext>>} The promise with the new context, if task has been found.
      */
-    public async enqueue(key: string, options?: Nilable<IQueueEnqueueOptions>): Promise<IQueueTaskContext> {
-        const task = this._tasks[key];
-        if (typeof task !== "function") {
-            throw new Error(`No task found for key ${String(key)}`);
+    public async requeueDeadLetterTask(id: any): Promise<Nilable<IQueueTaskContext>> {
+        const storage = await this.initStorage();
+        if (typeof storage.requeueDeadLetterTask !== "function") {
+            throw new Error("Storage does not support dead-letter tasks");
         }
 
-        const { storage } = this;
-
-        return Promise.resolve(
-            storage.enqueueTask({
-                "data": options?.data || {},
-                key
-            })
-        );
+        return Promise.resolve(storage.requeueDeadLetterTask(id));
     }
 
     /**
@@ -241,6 +1868,14 @@ export class Queue {
      * queue.register({
      *   'myTask1': async (context) => {
      *     // your code ...
+     *   },
+     *
+     *   // with additional settings
+     *   'myTask2': {
+     *     action: async (context) => {
+     *       // your code ...
+     *     },
+     *     concurrency: 2
      *   }
      * });
      *
@@ -253,49 +1888,259 @@ export class Queue {
      *
      * @returns {this}
      */
-    public register(taskDict: QueueTasksToRegisterDictionary): this;
-    public register(...tasks: QueueTaskToRegister[]): this;
+    public register(taskDict: QueueTasksToRegisterDictionary<TTasks>): this;
+    public register(...tasks: QueueTaskToRegister<TTasks>[]): this;
     public register(
-        arg1: QueueTasksToRegisterDictionary | QueueTaskToRegister,
-        ...moreTasks: QueueTaskToRegister[]
+        arg1: QueueTasksToRegisterDictionary<TTasks> | QueueTaskToRegister<TTasks>,
+        ...moreTasks: QueueTaskToRegister<TTasks>[]
     ): this {
-        const tasksToAdd = [...moreTasks];
+        // keys and data have been checked at compile time
+        const tasksToAdd = [...moreTasks] as [string, Nilable<QueueTaskToRegisterValue<any, any>>][];
 
         if (Array.isArray(arg1)) {
             // arg1 => QueueTaskToRegister
 
-            tasksToAdd.unshift(arg1);
+            tasksToAdd.unshift(arg1 as [string, QueueTaskToRegisterValue<any, any>]);
         }
         else if (typeof arg1 === "object") {
             // arg1 => taskDict: QueueTasksToRegisterDictionary
 
             tasksToAdd.unshift(
-                ...Object.entries(arg1)
-                    .map((entry, index) => {
-                        if (typeof entry[1] !== "function") {
-                            throw new TypeError(`Entry #${index} (${entry[0]}) of taskDict must be of type function`);
-                        }
-
-                        return entry;
-                    })
+                ...Object.entries(arg1 as Record<string, Nilable<QueueTaskToRegisterValue<any, any>>>)
             );
         }
         else {
             throw new TypeError("arg1 must be of type object or array");
         }
 
-        tasksToAdd.forEach(([key, action]) => {
-            if (typeof this._tasks[key] === "function") {
+        const tasksToSet = tasksToAdd.map(([key, value], index) => {
+            const task = (typeof value === "function" ? {
+                "action": value
+            } : value) as IQueueTaskDefinition | IQueueBatchTaskDefinition;
+
+            if (task && "batch" in task) {
+                const { batch } = task;
+
+                if (typeof batch?.action !== "function") {
+                    throw new TypeError(`batch of entry #${index} (${key}) must contain an action of type function`);
+                }
+
+                if (!Number.isInteger(batch.maxSize) || batch.maxSize < 1) {
+                    throw new TypeError(`batch.maxSize of entry #${index} (${key}) must be an integer greater than 0`);
+                }
+
+                if (!isNil(batch.maxWait) && (typeof batch.maxWait !== "number" || batch.maxWait < 0)) {
+                    throw new TypeError(`batch.maxWait of entry #${index} (${key}) must be a number not less than 0`);
+                }
+            }
+            else if (typeof task?.action !== "function") {
+                throw new TypeError(`Entry #${index} (${key}) must be of type function or contain an action of type function`);
+            }
+
+            if (!isNil(task.concurrency) && typeof task.concurrency !== "number") {
+                throw new TypeError(`concurrency of entry #${index} (${key}) must be of type number`);
+            }
+
+            if (!isNil(task.middlewares) && (!Array.isArray(task.middlewares) || task.middlewares.some((m) => {
+                return typeof m !== "function";
+            }))) {
+                throw new TypeError(`middlewares of entry #${index} (${key}) must be an array of functions`);
+            }
+
+            if (!isNil(task.rateLimit)) {
+                validateRateLimit(task.rateLimit, `rateLimit of entry #${index} (${key})`);
+            }
+
+            if (!isNil(task.timeout) && typeof task.timeout !== "number") {
+                throw new TypeError(`timeout of entry #${index} (${key}) must be of type number`);
+            }
+
+            if (!isNil(task.validator) && typeof task.validator !== "function" && typeof task.validator.parse !== "function") {
+                throw new TypeError(`validator of entry #${index} (${key}) must be of type function or contain a parse function`);
+            }
+
+            return [key, task] as const;
+        });
+
+        tasksToSet.forEach(([key, task]) => {
+            if (this._tasks[key]) {
                 throw new Error(`Task cannot be reset for key ${key}`);
             }
             else {
-                this._tasks[key] = action;
+                this._tasks[key] = {
+                    ...task
+                };
+            }
+        });
+
+        this.updateConcurrency();
+        this.updateRateLimits();
+
+        return this;
+    }
+
+    /**
+     * Registers one or more recurring jobs, which enqueue registered tasks
+     * automatically, while the queue is running.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * queue.register({
+     *   'myTask1': async (context) => {
+     *     // your code ...
+     *   }
+     * });
+     *
+     * queue.registerRecurring({
+     *   // every hour
+     *   cron: '0 * * * *',
+     *   key: 'myTask1',
+     *   data: { foo: 'bar' }
+     * }, {
+     *   // every 10 seconds
+     *   interval: 10000,
+     *   key: 'myTask1',
+     *   name: 'myTask1 (interval)',
+     *   overlap: 'queue'
+     * });
+     *
+     * await queue.start();
+     * ```
+     *
+     * @param {IQueueRecurringJob[]} jobs One or more jobs.
+     *
+     * @returns {this}
+     */
+    public registerRecurring(...jobs: IQueueRecurringJob<TTasks>[]): this {
+        const statesToAdd = jobs.map((job, index) => {
+            if (typeof job !== "object" || job === null) {
+                throw new TypeError(`Job #${index} must be of type object`);
+            }
+
+            const { key } = job;
+            if (!this._tasks[key]) {
+                throw new Error(`No task found for key ${String(key)}`);
+            }
+
+            const name = String(job.name ?? key);
+            if (this._recurringJobs.some((state) => {
+                return state.name === name;
+            })) {
+                throw new Error(`Recurring job cannot be reset for name ${name}`);
+            }
+
+            let cron: Nilable<ICronExpression>;
+            if (!isNil(job.cron)) {
+                if (!isNil(job.interval)) {
+                    throw new TypeError(`Job #${index} (${name}) cannot have cron and interval`);
+                }
+
+                cron = parseCronExpression(String(job.cron));
+
+                try {
+                    getNextCronDate(cron, new Date());
+                }
+                catch {
+                    throw new TypeError(`Job #${index} (${name}) has a cron expression, which never matches`);
+                }
+            }
+            else if (typeof job.interval !== "number" || job.interval <= 0) {
+                throw new TypeError(`Job #${index} (${name}) must have a cron expression or a positive interval`);
+            }
+
+            const overlap = job.overlap || "skip";
+            if (!recurringJobOverlapPolicies.includes(overlap)) {
+                throw new TypeError(`${overlap} is no valid value for overlap of job #${index} (${name})`);
+            }
+
+            if (this._storage) {
+                // otherwise checked, when storage is available
+                this.validateOverlapPolicy(this._storage, overlap);
+            }
+
+            const state: IRecurringJobState = {
+                cron,
+                "job": {
+                    ...job
+                },
+                name
+            };
+
+            return state;
+        });
+
+        statesToAdd.forEach((state, index) => {
+            if (statesToAdd.findIndex((s) => {
+                return s.name === state.name;
+            }) !== index) {
+                throw new Error(`Recurring job cannot be reset for name ${state.name}`);
             }
         });
 
+        this._recurringJobs.push(...statesToAdd);
+
+        if (this.isRunning) {
+            this.startRecurringJobs();
+        }
+
+        return this;
+    }
+
+    /**
+     * Resumes tasks with a specific key, which have been paused by `pause()`.
+     *
+     * @param {QueueTaskKey<TTasks>} key The key of the task.
+     *
+     * @returns {this} This instance.
+     */
+    public resume(key: QueueTaskKey<TTasks>): this {
+        if (!this._tasks[key]) {
+            throw new Error(`No task found for key ${String(key)}`);
+        }
+
+        this.updatePausedKeys(new Set([...this._pausedKeys].filter((k) => {
+            return k !== key;
+        })));
+
         return this;
     }
 
+    /**
+     * Runs an action with a propagation context, which is captured
+     * by all tasks, which are enqueued inside of it.
+     *
+     * An invalid `traceparent` is ignored, as the W3C Trace Context
+     * specification requires it.
+     *
+     * @example
+     * ```
+     * app.use((request, response, next) => {
+     *   Queue.runWithTraceContext({
+     *     metadata: {
+     *       requestId: request.headers["x-request-id"]
+     *     },
+     *     traceparent: request.headers.traceparent
+     *   }, next);
+     * });
+     * ```
+     *
+     * @param {IQueueTraceContext} traceContext The context.
+     * @param {Function} action The action to run.
+     *
+     * @returns {T} The result of `action`.
+     */
+    public static runWithTraceContext<T>(traceContext: IQueueTraceContext, action: () => T): T {
+        traceContext = sanitizeTraceContext(traceContext, "traceContext");
+
+        if (typeof action !== "function") {
+            throw new TypeError("action must be of type function");
+        }
+
+        return traceContextStorage.run(traceContext, action);
+    }
+
     /**
      * Starts the queue.
      *
@@ -306,34 +2151,191 @@ export class Queue {
             return false;  // already running
         }
 
-        await this.storage.enqueueRemainingTasks();
+        const storage = await this.initStorage();
+        if (this.isRunning) {
+            return false;  // started in the meantime
+        }
 
+        // tasks can be executed as soon as the storage has been started
         this._isRunning = true;
+        try {
+            await storage.enqueueRemainingTasks();
+        }
+        catch (error) {
+            this._isRunning = false;
+
+            throw error;
+        }
+
+        try {
+            this.startRecurringJobs();
+        }
+        catch (error) {
+            this.stopRecurringJobs();
+            await Promise.resolve(storage.stopAllEnqueuedTasks());
+
+            this._isRunning = false;
+
+            throw error;
+        }
+
         return true;
     }
 
     /**
      * Stops the queue.
      *
-     * @returns {Promise<boolean>} A promise, which indicates if operation was successful or not.
+     * Tasks, which are interrupted, are resumed on next start.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * // ...
+     *
+     * process.once("SIGTERM", async () => {
+     *   // wait max. 30 seconds for running tasks
+     *   const { interruptedTasks } = (await queue.stop({
+     *     drain: true,
+     *     timeout: 30000
+     *   }))!;
+     *
+     *   console.log(interruptedTasks.length, "task(s) have been interrupted");
+     * });
+     * ```
+     *
+     * @param {Nilable<IQueueStopOptions>} [options] Custom options.
+     *
+     * @returns {Promise<Nilable<IQueueStopResult>>} The promise with the result or `null`, if queue is not running.
      */
-    public async stop(): Promise<boolean> {
+    public async stop(options?: Nilable<IQueueStopOptions>): Promise<Nilable<IQueueStopResult>> {
         if (!this.isRunning) {
-            return false;  // not running yet
+            return null;  // not running yet
+        }
+
+        if (!isNil(options?.timeout) && typeof options!.timeout !== "number") {
+            throw new TypeError("options.timeout must be of type number");
         }
 
-        await this.storage.stopAllEnqueuedTasks();
+        this.stopRecurringJobs();
+
+        const result: Nilable<IQueueStopResult> = await Promise.resolve(
+            this.storage.stopAllEnqueuedTasks(options)
+        );
 
         this._isRunning = false;
-        return true;
+        return {
+            "interruptedTasks": Array.isArray(result?.interruptedTasks) ? result!.interruptedTasks : []
+        };
+    }
+
+    /**
+     * Adds one or more middlewares, which are executed around all tasks, in the order they have been added.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * queue.use(async (context, next) => {
+     *   const startTime = Date.now();
+     *
+     *   try {
+     *     return await next();
+     *   }
+     *   finally {
+     *     console.log("Task", context.key, "took", Date.now() - startTime, "ms");
+     *   }
+     * });
+     * ```
+     *
+     * @param {QueueMiddleware[]} middlewares The middlewares to add.
+     *
+     * @returns {this} This instance.
+     */
+    public use(...middlewares: QueueMiddleware[]): this {
+        middlewares.forEach((middleware, index) => {
+            if (typeof middleware !== "function") {
+                throw new TypeError(`middlewares[${index}] must be of type function`);
+            }
+        });
+
+        this._middlewares.push(...middlewares);
+
+        return this;
+    }
+
+    /**
+     * Waits until a task has been finished.
+     *
+     * A stopped task is resumed, when the queue is started again,
+     * so it is waited for, like a queued one.
+     *
+     * @example
+     * ```
+     * const queue = new Queue();
+     *
+     * // ...
+     *
+     * const { id } = await queue.enqueue('myTask1');
+     *
+     * // wait max. 10 seconds for the result
+     * const result = await queue.waitFor(id, {
+     *   timeout: 10000
+     * });
+     * ```
+     *
+     * @param {any} id The ID of the task.
+     * @param {Nilable<IQueueWaitForOptions>} [options] Custom options.
+     *
+     * @returns {Promise<any>} The promise with the result of the task, which is rejected, if task failed or has been cancelled.
+     */
+    public async waitFor(id: any, options?: Nilable<IQueueWaitForOptions>): Promise<any> {
+        const interval = options?.interval ?? 100;
+        const timeout = options?.timeout;
+
+        const startTime = Date.now();
+
+        for (; ;) {
+            const task = await this.getTask(id);
+
+            if (!task) {
+                throw new Error(`Task ${String(id)} not found`);
+            }
+            else if (task.status === "succeeded") {
+                return task.result;
+            }
+            else if (task.status === "failed") {
+                throw task.lastError;
+            }
+            else if (task.status === "cancelled") {
+                throw new Error(`Task ${String(id)} has been cancelled`);
+            }
+
+            if (!isNil(timeout) && Date.now() - startTime >= timeout) {
+                throw new Error(`Timeout while waiting for task ${String(id)}`);
+            }
+
+            await new Promise((resolve) => {
+                setTimeout(resolve, isNil(timeout) ?
+                    interval :
+                    Math.max(0, Math.min(interval, timeout - (Date.now() - startTime))));
+            });
+        }
     }
 
     /**
      * Gets the underlying storage.
      *
+     * If `storage` option is a function, the storage is available after `start()`
+     * or any other asynchronous operation, which requires it.
+     *
      * @returns {IQueueStorage} The storage.
      */
     public get storage(): IQueueStorage {
-        return this.getStorage();
+        if (!this._storage) {
+            throw new Error("Storage has not been provided yet");
+        }
+
+        return this._storage;
     }
 }
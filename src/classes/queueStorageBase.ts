@@ -13,15 +13,34 @@
 // You should have received a copy of the GNU Lesser General Public License
 // along with this program. If not, see <http://www.gnu.org/licenses/>.
 
-import type { IQueueStorage, IQueueTaskContext, IQueueTaskInStorageOptions, QueueErrorHandler, QueueExecutionHandler, QueueStorageEvent } from "../types";
+import type { IQueueEventContexts, IQueueStorage, IQueueTaskContext, IQueueTaskInStorageOptions, QueueErrorHandler, QueueExecutionHandler, QueueLifecycleEvent, QueueStorageEvent } from "../types";
 import type { Func } from "../types/internal";
+import { lifecycleEvents } from "../utils/internal";
 
 /**
  * A queue stroage base class.
  */
 export abstract class QueueStorageBase implements IQueueStorage {
-    private readonly _errorHandlers: QueueErrorHandler[] = [];
-    private readonly _executionHandlers: QueueExecutionHandler[] = [];
+    private readonly _handlers: Partial<Record<QueueStorageEvent, Func[]>> = {};
+
+    /**
+     * Invokes all handlers of a lifecycle event.
+     *
+     * @param {TEvent} event The name of the event.
+     * @param {IQueueEventContexts[TEvent]} context The context.
+     */
+    protected emit<TEvent extends QueueLifecycleEvent>(event: TEvent, context: IQueueEventContexts[TEvent]): void {
+        const handlers: Func[] = [...(this._handlers[event as QueueStorageEvent] || [])];
+
+        handlers.forEach((handler) => {
+            try {
+                handler(context);
+            }
+            catch (error) {
+                console.error("[ERROR]", "@egomobile/queue", "QueueStorageBase.emit()", event, error);
+            }
+        });
+    }
 
     /**
      * Returns a copy of the list of error handlers.
@@ -29,7 +48,7 @@ export abstract class QueueStorageBase implements IQueueStorage {
      * @returns {QueueErrorHandler[]} The list of error handlers.
      */
     protected getErrorHandlers(): QueueErrorHandler[] {
-        return [...this._errorHandlers];
+        return [...(this._handlers.error || [])];
     }
 
     /**
@@ -38,7 +57,22 @@ export abstract class QueueStorageBase implements IQueueStorage {
      * @returns {QueueExecutionHandler[]} The list of execution handlers.
      */
     protected getExecutionHandlers(): QueueExecutionHandler[] {
-        return [...this._executionHandlers];
+        return [...(this._handlers.execute || [])];
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public off(event: QueueStorageEvent, handler: Func): this {
+        const handlers = this._handlers[event];
+        if (handlers) {
+            const index = handlers.indexOf(handler);
+            if (index > -1) {
+                handlers.splice(index, 1);
+            }
+        }
+
+        return this;
     }
 
     /**
@@ -49,16 +83,19 @@ export abstract class QueueStorageBase implements IQueueStorage {
             throw new TypeError("handler must be of type function");
         }
 
-        if (event === "error") {
-            this._errorHandlers.push(handler as QueueErrorHandler);
-        }
-        else if (event === "execute") {
-            this._executionHandlers.push(handler as QueueExecutionHandler);
-        }
-        else {
+        if (event !== "error" && event !== "execute" && !lifecycleEvents.includes(event)) {
             throw new TypeError(`${event} is no valid value for event argument`);
         }
 
+        let handlers = this._handlers[event];
+        if (!handlers) {
+            handlers = [];
+
+            this._handlers[event] = handlers;
+        }
+
+        handlers.push(handler);
+
         return this;
     }
 
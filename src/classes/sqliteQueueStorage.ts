@@ -0,0 +1,772 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import crypto from "crypto";
+import { QueueTaskStalledError } from "../errors";
+import type { IQueueStopOptions, IQueueStopResult, IQueueTaskAttempt, IQueueTaskContext, IQueueTaskInStorageOptions, QueueTaskStatus } from "../types";
+import type { Nilable } from "../types/internal";
+import { isNil, toSerializableError } from "../utils/internal";
+import { IMemoryQueueStorageOptions, IMemoryQueueStorageTask, IMemoryQueueStorageTaskParent, MemoryQueueStorage } from "./memoryQueueStorage";
+
+/**
+ * A SQLite database connection, which is compatible with the one of `better-sqlite3` module.
+ */
+export interface ISqliteDatabase {
+    /**
+     * Closes the connection.
+     */
+    close(): any;
+    /**
+     * Executes one or more SQL statements without parameters.
+     *
+     * @param {string} sql The SQL.
+     */
+    exec(sql: string): any;
+    /**
+     * Prepares a SQL statement.
+     *
+     * @param {string} sql The SQL.
+     *
+     * @returns {ISqliteStatement} The statement.
+     */
+    prepare(sql: string): ISqliteStatement;
+}
+
+/**
+ * A prepared SQLite statement, which is compatible with the one of `better-sqlite3` module.
+ */
+export interface ISqliteStatement {
+    /**
+     * Executes the statement and returns all rows.
+     *
+     * @param {any[]} params The parameters.
+     *
+     * @returns {any[]} The rows.
+     */
+    all(...params: any[]): any[];
+    /**
+     * Executes the statement and returns information about the changes.
+     *
+     * @param {any[]} params The parameters.
+     *
+     * @returns {ISqliteRunResult} The information.
+     */
+    run(...params: any[]): ISqliteRunResult;
+}
+
+/**
+ * A result of `ISqliteStatement.run()` method.
+ */
+export interface ISqliteRunResult {
+    /**
+     * The number of changed rows.
+     */
+    changes: number;
+    /**
+     * The ID of the last inserted row.
+     */
+    lastInsertRowid: number | bigint;
+}
+
+/**
+ * Options for a `SqliteQueueStorage` instance.
+ */
+export interface ISqliteQueueStorageOptions extends IMemoryQueueStorageOptions {
+    /**
+     * An existing database connection.
+     *
+     * If not defined, a new connection to `file` is opened with `better-sqlite3` module.
+     */
+    database?: Nilable<ISqliteDatabase>;
+    /**
+     * The path to the database file, if no `database` is defined.
+     */
+    file?: Nilable<string>;
+    /**
+     * The time, in milliseconds, a running task is leased to this instance. If the lease is not renewed
+     * in time, e.g. because the process crashed, other instances requeue the task as stalled.
+     *
+     * `0` disables leases.
+     *
+     * Default: `30000`
+     */
+    leaseDuration?: Nilable<number>;
+    /**
+     * The interval, in milliseconds, the database is checked for tasks,
+     * which have been enqueued by other instances, while the queue is running.
+     * Only as many tasks are loaded, as can be started before the global concurrency is reached.
+     *
+     * Default: `1000`
+     */
+    pollInterval?: Nilable<number>;
+    /**
+     * The name of the table with the tasks. Default: `"queue_tasks"`
+     */
+    tableName?: Nilable<string>;
+}
+
+interface IAttemptRow extends Omit<IQueueTaskAttempt, "endedAt" | "startedAt"> {
+    endedAt: string;
+    startedAt: string;
+}
+
+interface ITaskRow {
+    attempt: number;
+    attempts: string;
+    created_at: number;
+    due_at: Nilable<number>;
+    failed_at: Nilable<number>;
+    id: number;
+    last_error: Nilable<string>;
+    lease_expires_at: Nilable<number>;
+    options: string;
+    owner: Nilable<string>;
+    parents: Nilable<string>;
+    stalled_count: Nilable<number>;
+    status: QueueTaskStatus;
+}
+
+type SqliteDatabaseClass = new (file: string) => ISqliteDatabase;
+
+const columnsToMigrate: Record<string, string> = {
+    "parents": "TEXT",
+    "lease_expires_at": "INTEGER",
+    "stalled_count": "INTEGER NOT NULL DEFAULT 0"
+};
+const defaultLeaseDuration = 30000;
+const defaultPollInterval = 1000;
+const defaultTableName = "queue_tasks";
+
+function openDatabase(file: string): ISqliteDatabase {
+    // optional module, which is only loaded, if needed
+    const Database: SqliteDatabaseClass = module.require("better-sqlite3");
+
+    const database = new Database(file);
+    database.exec("PRAGMA journal_mode = WAL");
+
+    return database;
+}
+
+function toDatabaseTask(task: IMemoryQueueStorageTask) {
+    return {
+        "attempt": task.attempt,
+        "attempts": JSON.stringify(task.attempts.map((a) => {
+            return {
+                ...a,
+                "error": toSerializableError(a.error)
+            };
+        })),
+        "due_at": task.dueAt ?? null,
+        "failed_at": task.failedAt?.getTime() ?? null,
+        "id": Number(task.id),
+        "last_error": typeof task.lastError === "undefined" ?
+            null :
+            JSON.stringify(toSerializableError(task.lastError)),
+        "lease_expires_at": task.status === "running" ? task.leaseExpiresAt ?? null : null,
+        "options": JSON.stringify(task.options),
+        "parents": task.parents ? JSON.stringify(task.parents) : null,
+        "stalled_count": task.stalledCount ?? 0,
+        "status": task.status,
+        "task_key": task.options.key,
+        "updated_at": Date.now()
+    };
+}
+
+function toMemoryTask(row: ITaskRow): IMemoryQueueStorageTask {
+    const options = JSON.parse(row.options);
+    if (options.runAt) {
+        options.runAt = new Date(options.runAt);
+    }
+
+    return {
+        "attempt": row.attempt,
+        "attempts": (JSON.parse(row.attempts) as IAttemptRow[]).map((a) => {
+            return {
+                ...a,
+                "endedAt": new Date(a.endedAt),
+                "startedAt": new Date(a.startedAt)
+            };
+        }),
+        "createdAt": new Date(row.created_at),
+        "dueAt": row.due_at,
+        "failedAt": typeof row.failed_at === "number" ? new Date(row.failed_at) : null,
+        "id": String(row.id),
+        "lastError": typeof row.last_error === "string" ? JSON.parse(row.last_error) : undefined,
+        "leaseExpiresAt": row.lease_expires_at,
+        options,
+        "parents": typeof row.parents === "string" ? JSON.parse(row.parents) : null,
+        "stalledCount": row.stalled_count,
+        "status": row.status
+    };
+}
+
+/**
+ * A queue storage, which keeps its tasks in a SQLite database.
+ *
+ * Tasks are claimed atomically, before they are executed, so multiple
+ * `Queue` instances, e.g. in different processes, can share the same database file.
+ *
+ * Running tasks are leased to the instance, which executes them. If an instance crashes,
+ * its tasks are requeued by the others, after their leases have expired.
+ *
+ * The optional `better-sqlite3` module is required, if no `database` is submitted.
+ *
+ * @example
+ * ```
+ * import { Queue, SqliteQueueStorage } from "@egomobile/queue";
+ *
+ * const queue = new Queue({
+ *   storageClass: SqliteQueueStorage,
+ *   storageClassArgs: [{
+ *     file: "/var/lib/my-service/queue.db"
+ *   }]
+ * });
+ * ```
+ */
+export class SqliteQueueStorage extends MemoryQueueStorage {
+    private readonly _claimedIds = new Set<string>();
+    private readonly _isDatabaseOwner: boolean;
+    private _lastPolledAt = 0;
+    private readonly _pollInterval: number;
+    private _pollTimer: Nilable<NodeJS.Timeout>;
+    private readonly _tableName: string;
+
+    /**
+     * The underlying database connection.
+     */
+    public readonly database: ISqliteDatabase;
+
+    /**
+     * A unique ID of this instance, which is stored as owner of claimed tasks.
+     */
+    public readonly workerId: string;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {ISqliteQueueStorageOptions} options The options.
+     */
+    public constructor(options: ISqliteQueueStorageOptions) {
+        super({
+            ...options,
+            "leaseDuration": options?.leaseDuration ?? defaultLeaseDuration
+        });
+
+        this._pollInterval = options?.pollInterval ?? defaultPollInterval;
+        this._tableName = options?.tableName || defaultTableName;
+        if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(this._tableName)) {
+            throw new TypeError("options.tableName must be a valid identifier");
+        }
+
+        if (options?.database) {
+            this.database = options.database;
+            this._isDatabaseOwner = false;
+        }
+        else {
+            if (typeof options?.file !== "string") {
+                throw new TypeError("options.file must be of type string, if no database is defined");
+            }
+
+            this.database = openDatabase(options.file);
+            this._isDatabaseOwner = true;
+        }
+
+        this.workerId = crypto.randomBytes(16).toString("hex");
+
+        this.createSchema();
+    }
+
+    private createSchema() {
+        const table = this._tableName;
+
+        this.database.exec(`CREATE TABLE IF NOT EXISTS ${table} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_key TEXT,
+    status TEXT NOT NULL,
+    options TEXT,
+    attempt INTEGER NOT NULL DEFAULT 0,
+    attempts TEXT NOT NULL DEFAULT '[]',
+    last_error TEXT,
+    parents TEXT,
+    due_at INTEGER,
+    failed_at INTEGER,
+    owner TEXT,
+    lease_expires_at INTEGER,
+    stalled_count INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS ${table}_status_due_at ON ${table} (status, due_at);
+CREATE TABLE IF NOT EXISTS ${table}_idempotency_keys (
+    task_key TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL,
+    task_id INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    PRIMARY KEY (task_key, idempotency_key)
+);
+CREATE INDEX IF NOT EXISTS ${table}_idempotency_keys_expires_at ON ${table}_idempotency_keys (expires_at);`);
+
+        // tables of older versions have not all columns
+        const columns = this.database.prepare(`PRAGMA table_info(${table})`).all() as { name: string; }[];
+        Object.entries(columnsToMigrate).forEach(([name, definition]) => {
+            if (!columns.some((c) => {
+                return c.name === name;
+            })) {
+                this.database.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+            }
+        });
+    }
+
+    private findDuplicateRowId(options: IQueueTaskInStorageOptions, withFinished: boolean): Nilable<string> {
+        if (isNil(options.idempotencyKey)) {
+            return null;
+        }
+
+        const idempotencyKey = String(options.idempotencyKey);
+
+        const rows = this.database.prepare(
+            `SELECT id FROM ${this._tableName} WHERE task_key = ? AND status IN ('queued', 'running') AND json_extract(options, '$.idempotencyKey') = ? LIMIT 1`
+        ).all(options.key, idempotencyKey) as Pick<ITaskRow, "id">[];
+        if (rows.length) {
+            return String(rows[0].id);
+        }
+
+        if (!withFinished) {
+            return null;
+        }
+
+        // tasks, which have been finished by any instance
+        // within their idempotency retention
+        const keyRows = this.database.prepare(
+            `SELECT task_id FROM ${this._tableName}_idempotency_keys WHERE task_key = ? AND idempotency_key = ? AND expires_at > ?`
+        ).all(options.key, idempotencyKey, Date.now()) as { task_id: number; }[];
+
+        return keyRows.length ? String(keyRows[0].task_id) : null;
+    }
+
+    private loadNewTasks() {
+        const now = Date.now();
+        // overlap with the last poll, because of transactions, which are committed late
+        const since = this._lastPolledAt - this._pollInterval;
+
+        this._lastPolledAt = now;
+
+        const pendingIds = JSON.stringify(this.getPendingTaskIds().map(Number));
+
+        // parents of known flow tasks, which have been finished by other instances
+        const changedRows = this.database.prepare(
+            `SELECT * FROM ${this._tableName} WHERE status = 'queued' AND parents IS NOT NULL AND updated_at >= ? AND id IN (SELECT value FROM json_each(?))`
+        ).all(since, pendingIds) as ITaskRow[];
+
+        this.restoreTasks(changedRows.map(toMemoryTask));
+
+        const freeSlotCount = this.getFreeSlotCount();
+        if (freeSlotCount < 1) {
+            return;
+        }
+
+        // only as many tasks of other instances, as can be started
+        const rows = this.database.prepare(
+            `SELECT * FROM ${this._tableName} WHERE status = 'queued' AND (due_at IS NULL OR due_at <= ?) AND id NOT IN (SELECT value FROM json_each(?)) ORDER BY COALESCE(json_extract(options, '$.priority'), 0) DESC, COALESCE(due_at, 0), id LIMIT ?`
+        ).all(now, pendingIds, Number.isFinite(freeSlotCount) ? freeSlotCount : -1) as ITaskRow[];
+
+        this.restoreTasks(rows.map(toMemoryTask));
+    }
+
+    private loadTasks(statuses: string[]) {
+        this._lastPolledAt = Date.now();
+
+        const rows = this.database.prepare(
+            `SELECT * FROM ${this._tableName} WHERE status IN (${statuses.map(() => {
+                return "?";
+            }).join(", ")}) ORDER BY id`
+        ).all(...statuses) as ITaskRow[];
+
+        this.restoreTasks(rows.map(toMemoryTask));
+    }
+
+    private getExpectedOwner(id: string): Nilable<string> {
+        // as long as a task is claimed, only this instance is allowed to update it
+        return this._claimedIds.has(id) ? this.workerId : null;
+    }
+
+    private recoverExpiredLeases(): IQueueTaskContext[] {
+        const now = Date.now();
+
+        const stalledTasks = this.runInTransaction(() => {
+            const rows = this.database.prepare(
+                `SELECT * FROM ${this._tableName} WHERE status = 'running' AND lease_expires_at IS NOT NULL AND lease_expires_at < ? ORDER BY id`
+            ).all(now) as ITaskRow[];
+
+            return rows.map((row) => {
+                const task = toMemoryTask(row);
+                task.leaseExpiresAt = null;
+                task.stalledCount = (row.stalled_count || 0) + 1;
+
+                if (this.hasStalledTooOften(task.stalledCount)) {
+                    task.failedAt = new Date(now);
+                    task.lastError = new QueueTaskStalledError(task.id, task.options.key, task.stalledCount);
+                    task.status = "failed";
+                }
+                else {
+                    task.status = "queued";
+                }
+
+                this.database.prepare(
+                    `UPDATE ${this._tableName} SET status = ?, last_error = ?, failed_at = ?, owner = NULL, lease_expires_at = NULL, stalled_count = ?, updated_at = ? WHERE id = ?`
+                ).run(
+                    task.status,
+                    typeof task.lastError === "undefined" ? null : JSON.stringify(toSerializableError(task.lastError)),
+                    task.failedAt?.getTime() ?? null,
+                    task.stalledCount,
+                    now,
+                    row.id
+                );
+
+                return task;
+            });
+        });
+
+        // failed tasks are part of the dead-letter area of this instance now
+        this.restoreTasks(stalledTasks.filter((task) => {
+            return task.status === "failed";
+        }));
+
+        return stalledTasks.map((task) => {
+            const eventContext = {
+                "attempt": task.attempt,
+                "data": task.options.data,
+                "id": task.id,
+                "key": task.options.key
+            };
+
+            this.emit("stalled", eventContext);
+
+            if (task.status === "failed") {
+                this.emit("failed", {
+                    ...eventContext,
+                    "error": task.lastError
+                });
+            }
+
+            return {
+                "id": task.id
+            };
+        });
+    }
+
+    private runInTransaction<T>(action: () => T): T {
+        this.database.exec("BEGIN IMMEDIATE");
+        try {
+            const result = action();
+
+            this.database.exec("COMMIT");
+
+            return result;
+        }
+        catch (error) {
+            this.database.exec("ROLLBACK");
+
+            throw error;
+        }
+    }
+
+    private startPolling() {
+        if (this._pollTimer || this._pollInterval <= 0) {
+            return;
+        }
+
+        this._pollTimer = setInterval(() => {
+            try {
+                this.recoverExpiredLeases();
+                this.loadNewTasks();
+
+                this.scheduleDispatch();
+            }
+            catch (error) {
+                this.getErrorHandlers().forEach((handler) => {
+                    try {
+                        handler({
+                            error
+                        });
+                    }
+                    catch (error2) {
+                        console.error("[ERROR]", "@egomobile/queue", "SqliteQueueStorage.startPolling()", error2);
+                    }
+                });
+            }
+        }, this._pollInterval);
+
+        // do not keep the process alive
+        this._pollTimer.unref();
+    }
+
+    private stopPolling() {
+        if (this._pollTimer) {
+            clearInterval(this._pollTimer);
+
+            this._pollTimer = null;
+        }
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected claimTask(task: IMemoryQueueStorageTask): boolean {
+        const { changes } = this.database.prepare(
+            `UPDATE ${this._tableName} SET status = 'running', owner = ?, lease_expires_at = ?, updated_at = ? WHERE id = ? AND status = 'queued'`
+        ).run(this.workerId, task.leaseExpiresAt ?? null, Date.now(), Number(task.id));
+
+        if (changes > 0) {
+            this._claimedIds.add(task.id);
+
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Closes the underlying database connection.
+     */
+    public close(): void {
+        this.stopPolling();
+
+        this.database.close();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async dispose(): Promise<void> {
+        this.stopPolling();
+
+        await super.dispose();
+
+        // connections, which have been submitted, are managed by their owners
+        if (this._isDatabaseOwner) {
+            this.database.close();
+        }
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected createTaskId(): string {
+        const now = Date.now();
+
+        // placeholder, which is invisible for other instances
+        // until the task has been stored completely
+        const { lastInsertRowid } = this.database.prepare(
+            `INSERT INTO ${this._tableName} (status, created_at, updated_at) VALUES ('pending', ?, ?)`
+        ).run(now, now);
+
+        return String(lastInsertRowid);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected onIdempotencyKeyRetained(task: IMemoryQueueStorageTask, expiresAt: number): void {
+        const table = `${this._tableName}_idempotency_keys`;
+
+        this.database.prepare(
+            `DELETE FROM ${table} WHERE expires_at <= ?`
+        ).run(Date.now());
+
+        this.database.prepare(
+            `INSERT OR REPLACE INTO ${table} (task_key, idempotency_key, task_id, expires_at) VALUES (?, ?, ?, ?)`
+        ).run(task.options.key, String(task.options.idempotencyKey), Number(task.id), expiresAt);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected onTaskChanged(task: IMemoryQueueStorageTask): void {
+        const row = toDatabaseTask(task);
+
+        let owner: Nilable<string> = null;
+        if (task.status === "running") {
+            owner = this.workerId;
+        }
+        else if (task.status === "stopped") {
+            // stopped and interrupted tasks can be
+            // resumed by any instance
+            row.status = "queued";
+        }
+
+        const expectedOwner = this.getExpectedOwner(task.id);
+
+        if (task.status !== "running") {
+            this._claimedIds.delete(task.id);
+        }
+
+        this.database.prepare(
+            `UPDATE ${this._tableName} SET task_key = ?, status = ?, options = ?, attempt = ?, attempts = ?, last_error = ?, parents = ?, due_at = ?, failed_at = ?, owner = ?, lease_expires_at = ?, stalled_count = ?, updated_at = ? WHERE id = ? AND owner IS ?`
+        ).run(
+            row.task_key, row.status, row.options, row.attempt, row.attempts, row.last_error,
+            row.parents, row.due_at, row.failed_at, owner, row.lease_expires_at, row.stalled_count, row.updated_at,
+            row.id, expectedOwner
+        );
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected onFlowTaskFinished(task: IMemoryQueueStorageTask): void {
+        const flow = task.options.flow!;
+
+        const parent: IMemoryQueueStorageTaskParent = {
+            "result": task.result,
+            "status": task.status
+        };
+
+        this.runInTransaction(() => {
+            const rows = this.database.prepare(
+                `SELECT id, parents FROM ${this._tableName} WHERE status = 'queued' AND json_extract(options, '$.flow.id') = ? AND EXISTS (SELECT 1 FROM json_each(options, '$.flow.dependsOn') WHERE value = ?)`
+            ).all(flow.id, flow.name) as Pick<ITaskRow, "id" | "parents">[];
+
+            rows.forEach((row) => {
+                const parents = typeof row.parents === "string" ? JSON.parse(row.parents) : {};
+                parents[flow.name] = parent;
+
+                this.database.prepare(
+                    `UPDATE ${this._tableName} SET parents = ?, updated_at = ? WHERE id = ?`
+                ).run(JSON.stringify(parents), Date.now(), row.id);
+            });
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected onTaskRemoved(id: string): void {
+        const expectedOwner = this.getExpectedOwner(id);
+
+        this._claimedIds.delete(id);
+
+        this.database.prepare(
+            `DELETE FROM ${this._tableName} WHERE id = ? AND owner IS ?`
+        ).run(Number(id), expectedOwner);
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async recoverStalledTasks(): Promise<IQueueTaskContext[]> {
+        return this.recoverExpiredLeases();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    protected renewLease(task: IMemoryQueueStorageTask): boolean {
+        const { changes } = this.database.prepare(
+            `UPDATE ${this._tableName} SET lease_expires_at = ?, updated_at = ? WHERE id = ? AND status = 'running' AND owner = ?`
+        ).run(task.leaseExpiresAt ?? null, Date.now(), Number(task.id), this.workerId);
+
+        if (changes > 0) {
+            return true;
+        }
+
+        this._claimedIds.delete(task.id);
+
+        return false;
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueRemainingTasks(): Promise<IQueueTaskContext[]> {
+        this.recoverExpiredLeases();
+        this.loadTasks(["queued", "failed"]);
+
+        this.startPolling();
+
+        return super.enqueueRemainingTasks();
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueTask(options: IQueueTaskInStorageOptions): Promise<IQueueTaskContext> {
+        // check for duplicates of other instances and insert
+        // the placeholder and the task in the same transaction
+        return this.runInTransaction(() => {
+            const duplicateId = this.findDuplicateRowId(options, true);
+
+            return isNil(duplicateId) ?
+                this.addTask(options) :
+                {
+                    "id": duplicateId,
+                    "isDuplicate": true
+                };
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async enqueueTasks(optionsList: IQueueTaskInStorageOptions[]): Promise<IQueueTaskContext[]> {
+        // insert all rows in one transaction
+        return this.runInTransaction(() => {
+            return optionsList.map((options) => {
+                const duplicateId = this.findDuplicateRowId(options, true);
+
+                return isNil(duplicateId) ?
+                    this.addTask(options) :
+                    {
+                        "id": duplicateId,
+                        "isDuplicate": true
+                    };
+            });
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async requeueDeadLetterTask(id: any): Promise<Nilable<IQueueTaskContext>> {
+        // check for active tasks of other instances with the same
+        // idempotency key and move the task in the same transaction
+        return this.runInTransaction(() => {
+            const rows = this.database.prepare(
+                `SELECT options FROM ${this._tableName} WHERE id = ? AND status = 'failed'`
+            ).all(Number(id)) as Pick<ITaskRow, "options">[];
+
+            const duplicateId = rows.length ?
+                this.findDuplicateRowId(JSON.parse(rows[0].options), false) :
+                null;
+
+            // the synchronous part of the base method
+            // is executed inside the transaction
+            return isNil(duplicateId) ?
+                super.requeueDeadLetterTask(id) :
+                {
+                    "id": duplicateId,
+                    "isDuplicate": true
+                };
+        });
+    }
+
+    /**
+     * @inheritdoc
+     */
+    public async stopAllEnqueuedTasks(options?: Nilable<IQueueStopOptions>): Promise<IQueueStopResult> {
+        this.stopPolling();
+
+        return super.stopAllEnqueuedTasks(options);
+    }
+}
@@ -0,0 +1,36 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+/**
+ * An error, which is used, if a task stalled too often, because the lease of its worker expired.
+ */
+export class QueueTaskStalledError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {any} taskId The ID of the task.
+     * @param {string} taskKey The key of the task.
+     * @param {number} stalledCount The number of times, the task stalled.
+     */
+    public constructor(
+        public readonly taskId: any,
+        public readonly taskKey: string,
+        public readonly stalledCount: number
+    ) {
+        super(`Task ${String(taskId)} (${taskKey}) stalled ${stalledCount} time(s)`);
+
+        this.name = "QueueTaskStalledError";
+    }
+}
@@ -0,0 +1,33 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+/**
+ * An error, which is used, if a task should be executed, whose key has not been registered,
+ * e.g. after it has been restored from a persistent storage.
+ */
+export class QueueUnknownTaskKeyError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} taskKey The key of the task.
+     */
+    public constructor(
+        public readonly taskKey: string
+    ) {
+        super(`Unknown task key ${taskKey}`);
+
+        this.name = "QueueUnknownTaskKeyError";
+    }
+}
@@ -0,0 +1,45 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+/**
+ * An error, which is thrown, if the data of a task is invalid.
+ */
+export class QueueValidationError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {string} taskKey The key of the task.
+     * @param {any} data The invalid data.
+     * @param {any} [details] Details, like the error of a schema or a list of issues.
+     */
+    public constructor(
+        public readonly taskKey: string,
+        public readonly data: any,
+        public readonly details?: any
+    ) {
+        super(`Invalid data for task ${taskKey}${details instanceof Error && details.message ? `: ${details.message}` : ""}`);
+
+        this.name = "QueueValidationError";
+    }
+
+    /**
+     * The list of issues, if provided by the validator, like `issues` of a `ZodError`.
+     *
+     * @returns {any[]} The list of issues.
+     */
+    public get issues(): any[] {
+        return Array.isArray(this.details?.issues) ? this.details.issues : [];
+    }
+}
@@ -14,4 +14,5 @@
 // along with this program. If not, see <http://www.gnu.org/licenses/>.
 
 export * from "./classes";
+export * from "./errors";
 export * from "./types";
@@ -13,73 +13,726 @@
 // You should have received a copy of the GNU Lesser General Public License
 // along with this program. If not, see <http://www.gnu.org/licenses/>.
 
-import type { Func } from "./internal";
+import type { Func, Nilable } from "./internal";
 
 /**
  * A function, which returns a queue storage asynchroniously.
  */
 export type AsyncQueueStorageProvider = () => PromiseLike<IQueueStorage>;
 
+/**
+ * An execution context for a `QueueBatchTask`.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
+ */
+export interface IQueueBatchExecutionContext<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> {
+    /**
+     * The execution contexts of the items, in the order they have been queued.
+     */
+    items: IQueueTaskExecutionContext<TData, TKey>[];
+    /**
+     * The key of the tasks.
+     */
+    key: TKey;
+}
+
+/**
+ * Limits for the number of tasks, which are executed at the same time.
+ */
+export interface IQueueConcurrencyLimits {
+    /**
+     * The maximum number of all tasks, which can run at the same time.
+     *
+     * If not defined, there is no limit.
+     */
+    global?: Nilable<number>;
+    /**
+     * The maximum number of tasks, which can run at the same time, by task key.
+     */
+    keys?: Nilable<Record<string, number>>;
+}
+
+/**
+ * A task, which failed permanently and has been moved to
+ * the dead-letter area of a storage.
+ */
+export interface IQueueDeadLetterTask {
+    /**
+     * The history of all attempts.
+     */
+    attempts: IQueueTaskAttempt[];
+    /**
+     * Data.
+     */
+    data: QueueTaskData;
+    /**
+     * The time, the task has been moved to dead-letter area.
+     */
+    failedAt: Date;
+    /**
+     * The ID of the task.
+     */
+    id: any;
+    /**
+     * The key of the task.
+     */
+    key: string;
+    /**
+     * The last error.
+     */
+    lastError: any;
+}
+
+/**
+ * Context for a `drained` event.
+ */
+export interface IQueueDrainedEventContext {
+    /**
+     * The time, in milliseconds, it took to wait for running tasks.
+     */
+    duration: number;
+    /**
+     * The tasks, which have been interrupted, because they did not finish in time.
+     */
+    interruptedTasks: IQueueTaskContext[];
+}
+
 /**
  * Context for a `QueueErrorHandler` function.
  */
-export interface IQueueErrorHandlerContext {
+export interface IQueueErrorHandlerContext {
+    /**
+     * The number of the failed attempt, if error is related to a task.
+     */
+    attempt?: Nilable<number>;
+    /**
+     * The data of the task, if error is related to a task.
+     */
+    data?: Nilable<QueueTaskData>;
+    /**
+     * The error.
+     */
+    error: any;
+    /**
+     * The ID of the task, if error is related to a task.
+     */
+    id?: any;
+    /**
+     * The key of the task, if error is related to a task.
+     */
+    key?: Nilable<string>;
+}
+
+/**
+ * Contextes of queue events, by event name.
+ */
+export interface IQueueEventContexts {
+    /**
+     * All running tasks have been finished or interrupted, while queue was stopping.
+     */
+    drained: IQueueDrainedEventContext;
+    /**
+     * A task has been enqueued.
+     */
+    enqueued: IQueueTaskEventContext;
+    /**
+     * An error occurred.
+     */
+    error: IQueueErrorHandlerContext;
+    /**
+     * A task failed permanently and has been moved to the dead-letter area.
+     */
+    failed: IQueueTaskEventContext;
+    /**
+     * There are no running, due or retrying tasks anymore.
+     */
+    idle: void;
+    /**
+     * An attempt of a task failed and the task will be retried.
+     */
+    retrying: IQueueTaskEventContext;
+    /**
+     * A running task has been requeued or failed, because the lease of its worker expired.
+     */
+    stalled: IQueueTaskEventContext;
+    /**
+     * An attempt of a task has been started.
+     */
+    started: IQueueTaskEventContext;
+    /**
+     * A task has been stopped or interrupted, because its queue has been stopped.
+     */
+    stopped: IQueueTaskEventContext;
+    /**
+     * A task has been finished successfully.
+     */
+    succeeded: IQueueTaskEventContext;
+}
+
+/**
+ * Execution context for a `QueueExecutionHandler` instance.
+ */
+export interface IQueueExecutionHandlerContext {
+    /**
+     * The number of the current attempt, beginning at `1`.
+     */
+    attempt: number;
+    /**
+     * Data.
+     */
+    data: QueueTaskData;
+    /**
+     * The results of the parent tasks of a flow, by their names.
+     */
+    parentResults?: Nilable<Record<string, any>>;
+    /**
+     * The signal, which is aborted, if the task has been cancelled.
+     */
+    signal: AbortSignal;
+    /**
+     * The key of the task.
+     */
+    taskKey: string;
+    /**
+     * The propagation context, the task has been enqueued with.
+     */
+    traceContext?: Nilable<IQueueTraceContext>;
+}
+
+/**
+ * Information about a flow of tasks.
+ */
+export interface IQueueFlowInfo {
+    /**
+     * The ID of the flow.
+     */
+    id: string;
+    /**
+     * The status of the flow.
+     */
+    status: QueueFlowStatus;
+    /**
+     * The known tasks of the flow, by their names.
+     */
+    tasks: Record<string, IQueueTaskInfo>;
+}
+
+/**
+ * A histogram with cumulative buckets.
+ */
+export interface IQueueHistogram {
+    /**
+     * The buckets, sorted by their upper bounds.
+     */
+    buckets: IQueueHistogramBucket[];
+    /**
+     * The total number of observed values.
+     */
+    count: number;
+    /**
+     * The sum of all observed values, in milliseconds.
+     */
+    sum: number;
+}
+
+/**
+ * A bucket of an `IQueueHistogram`.
+ */
+export interface IQueueHistogramBucket {
+    /**
+     * The number of observed values, which are less than or equal to `le`.
+     */
+    count: number;
+    /**
+     * The upper bound, in milliseconds.
+     */
+    le: number;
+}
+
+/**
+ * Statistics of tasks with a specific key.
+ */
+export interface IQueueKeyStats {
+    /**
+     * The number of known tasks by status.
+     */
+    byStatus: Record<QueueTaskStatus, number>;
+    /**
+     * The execution durations of attempts.
+     */
+    duration: IQueueHistogram;
+    /**
+     * The number of running tasks.
+     */
+    inFlight: number;
+    /**
+     * The time, in milliseconds, the oldest due task waits for its execution, if there is one.
+     */
+    oldestWaitingAge: Nilable<number>;
+    /**
+     * The throughput within the last interval.
+     */
+    throughput: IQueueThroughputStats;
+    /**
+     * The times, tasks waited after they became due, until they were started.
+     */
+    wait: IQueueHistogram;
+}
+
+/**
+ * Options for `Queue.getMetrics()` method.
+ */
+export interface IQueueMetricsOptions {
+    /**
+     * The prefix for the names of the metrics. Default: `"queue"`
+     */
+    prefix?: Nilable<string>;
+}
+
+/**
+ * A limit for the number of tasks, which can be started within an interval.
+ */
+export interface IQueueRateLimit {
+    /**
+     * The length of the interval, in milliseconds.
+     */
+    interval: number;
+    /**
+     * The maximum number of tasks, which can be started within `interval`.
+     */
+    limit: number;
+    /**
+     * The strategy.
+     *
+     * Default: `"sliding-window"`
+     */
+    strategy?: Nilable<QueueRateLimitStrategy>;
+}
+
+/**
+ * Rate limits for tasks.
+ */
+export interface IQueueRateLimits {
+    /**
+     * The limit for all tasks.
+     *
+     * If not defined, there is no limit.
+     */
+    global?: Nilable<IQueueRateLimit>;
+    /**
+     * The limits by task key.
+     */
+    keys?: Nilable<Record<string, IQueueRateLimit>>;
+}
+
+/**
+ * The current state of a rate limit.
+ */
+export interface IQueueRateLimitStats {
+    /**
+     * The number of tasks, which can be started now.
+     */
+    available: number;
+    /**
+     * The length of the interval, in milliseconds.
+     */
+    interval: number;
+    /**
+     * Is `true`, if tasks, which are due, have to wait because of this limit.
+     */
+    isThrottled: boolean;
+    /**
+     * The task key or `null` for the global limit.
+     */
+    key: Nilable<string>;
+    /**
+     * The maximum number of tasks, which can be started within `interval`.
+     */
+    limit: number;
+    /**
+     * The time, the next task can be started.
+     */
+    nextAvailableAt: Date;
+    /**
+     * The strategy.
+     */
+    strategy: QueueRateLimitStrategy;
+    /**
+     * The number of tasks, which are due, but have to wait because of this limit.
+     */
+    throttledTasks: number;
+}
+
+/**
+ * A retry policy for a task.
+ */
+export interface IQueueRetryPolicy {
+    /**
+     * The strategy, which is used to calculate the delay between two attempts.
+     *
+     * Default: `"exponential"`
+     */
+    backoff?: Nilable<QueueRetryBackoff>;
+    /**
+     * The base delay between two attempts, in milliseconds.
+     *
+     * Default: `1000`
+     */
+    delay?: Nilable<number>;
+    /**
+     * A function, which checks if an error is worth to retry the task.
+     *
+     * If it returns a falsy value, the task fails without further attempts.
+     */
+    isRetryable?: Nilable<QueueRetryPredicate>;
+    /**
+     * Randomizes the calculated delay.
+     *
+     * `true` means full jitter, a number between `0` and `1` defines the
+     * ratio of the delay, which should be randomized.
+     *
+     * Default: `false`
+     */
+    jitter?: Nilable<boolean | number>;
+    /**
+     * The maximum number of attempts, including the first one.
+     *
+     * Default: `3`
+     */
+    maxAttempts?: Nilable<number>;
+    /**
+     * The maximum delay between two attempts, in milliseconds.
+     */
+    maxDelay?: Nilable<number>;
+}
+
+/**
+ * A queue storage.
+ */
+export interface IQueueStorage {
+    /**
+     * Registers one or more error handlers.
+     *
+     * @param {QueueStorageEvent} event The name of the known event.
+     * @param {Func} handler The handler to register.
+     *
+     * @returns {this} This instance.
+     */
+    on(event: "error", handler: QueueErrorHandler): this;
+    on(event: "execute", handler: QueueExecutionHandler): this;
+    on<TEvent extends QueueLifecycleEvent>(event: TEvent, handler: QueueEventHandler<TEvent>): this;
+    on(event: QueueStorageEvent, handler: Func): this;
+
+    /**
+     * Cancels a task, which has not been finished yet.
+     *
+     * @param {any} id The ID of the task.
+     *
+     * @returns {boolean|PromiseLike<boolean>} A value, which indicates if task has been cancelled or not, or the promise with it.
+     */
+    cancelTask?(id: any): boolean | PromiseLike<boolean>;
+
+    /**
+     * Cancels all tasks with a specific key, which have not been finished yet.
+     *
+     * @param {string} key The key of the tasks.
+     *
+     * @returns {number|PromiseLike<number>} The number of cancelled tasks or the promise with it.
+     */
+    cancelTasksByKey?(key: string): number | PromiseLike<number>;
+
+    /**
+     * Releases the resources of the storage, like database connections or timers.
+     *
+     * Is invoked by `Queue.dispose()`.
+     */
+    dispose?(): void | PromiseLike<void>;
+
+    /**
+     * Enqueues all remaing tasks, which are not finished or aborted.
+     *
+     * @returns {IQueueTaskContext[]|PromiseLike<IQueueTaskContext[]>} The contextes or the promise with it.
+     */
+    enqueueRemainingTasks(): IQueueTaskContext[] | PromiseLike<IQueueTaskContext[]>;
+
+    /**
+     * Queues a task.
+     *
+     * @param {IQueueTaskInStorageOptions} options The options.
+     *
+     * @returns {IQueueTaskContext|PromiseLike<IQueueTaskContext>} The context or the promise with it.
+     */
+    enqueueTask: (options: IQueueTaskInStorageOptions) => IQueueTaskContext | PromiseLike<IQueueTaskContext>;
+
+    /**
+     * Queues a list of tasks at once.
+     *
+     * Either all tasks are queued or none of them.
+     *
+     * @param {IQueueTaskInStorageOptions[]} optionsList The options of the tasks.
+     *
+     * @returns {IQueueTaskContext[]|PromiseLike<IQueueTaskContext[]>} The contextes, in the same order, or the promise with them.
+     */
+    enqueueTasks?(optionsList: IQueueTaskInStorageOptions[]): IQueueTaskContext[] | PromiseLike<IQueueTaskContext[]>;
+
+    /**
+     * Returns a task from the dead-letter area.
+     *
+     * @param {any} id The ID of the task.
+     *
+     * @returns {Nilable<IQueueDeadLetterTask>|PromiseLike<Nilable<IQueueDeadLetterTask>>} The task, if found, or the promise with it.
+     */
+    getDeadLetterTask?(id: any): Nilable<IQueueDeadLetterTask> | PromiseLike<Nilable<IQueueDeadLetterTask>>;
+
+    /**
+     * Returns all tasks of the dead-letter area.
+     *
+     * @returns {IQueueDeadLetterTask[]|PromiseLike<IQueueDeadLetterTask[]>} The list of tasks or the promise with it.
+     */
+    getDeadLetterTasks?(): IQueueDeadLetterTask[] | PromiseLike<IQueueDeadLetterTask[]>;
+
+    /**
+     * Returns information about all known tasks of a flow.
+     *
+     * A storage, which implements this method, has to support `flow` of `IQueueTaskInStorageOptions`
+     * and has to implement `enqueueTasks()`, because all tasks of a flow have to be queued at once.
+     *
+     * @param {string} flowId The ID of the flow.
+     *
+     * @returns {IQueueTaskInfo[]|PromiseLike<IQueueTaskInfo[]>} The list of tasks or the promise with it.
+     */
+    getFlowTasks?(flowId: string): IQueueTaskInfo[] | PromiseLike<IQueueTaskInfo[]>;
+
+    /**
+     * Returns statistics of the storage.
+     *
+     * @returns {IQueueStats|PromiseLike<IQueueStats>} The statistics or the promise with it.
+     */
+    getStats?(): IQueueStats | PromiseLike<IQueueStats>;
+
+    /**
+     * Returns information about a task.
+     *
+     * @param {any} id The ID of the task.
+     *
+     * @returns {Nilable<IQueueTaskInfo>|PromiseLike<Nilable<IQueueTaskInfo>>} The information, if task is known, or the promise with it.
+     */
+    getTask?(id: any): Nilable<IQueueTaskInfo> | PromiseLike<Nilable<IQueueTaskInfo>>;
+
+    /**
+     * Returns the current status of a task.
+     *
+     * @param {any} id The ID of the task.
+     *
+     * @returns {Nilable<QueueTaskStatus>|PromiseLike<Nilable<QueueTaskStatus>>} The status, if task is known, or the promise with it.
+     */
+    getTaskStatus?(id: any): Nilable<QueueTaskStatus> | PromiseLike<Nilable<QueueTaskStatus>>;
+
+    /**
+     * Initializes the storage, e.g. by loading persisted tasks or running migrations.
+     *
+     * Is invoked by the `Queue`, which uses the storage, before it is used the first time
+     * and again after it has been disposed, so implementations should be able to handle multiple calls.
+     */
+    init?(): void | PromiseLike<void>;
+
+    /**
+     * Removes an event handler.
+     *
+     * @param {QueueStorageEvent} event The name of the event.
+     * @param {Func} handler The handler to remove.
+     *
+     * @returns {this} This instance.
+     */
+    off?(event: QueueStorageEvent, handler: Func): this;
+
+    /**
+     * Removes tasks from the dead-letter area.
+     *
+     * @param {Nilable<any[]>} [ids] The IDs of the tasks to remove. If not defined, all tasks are removed.
+     *
+     * @returns {number|PromiseLike<number>} The number of removed tasks or the promise with it.
+     */
+    purgeDeadLetterTasks?(ids?: Nilable<any[]>): number | PromiseLike<number>;
+
+    /**
+     * Requeues running tasks, whose leases have expired, because their workers
+     * crashed or lost the connection, or moves them to the dead-letter area,
+     * if they stalled too often.
+     *
+     * @returns {IQueueTaskContext[]|PromiseLike<IQueueTaskContext[]>} The contextes of the stalled tasks or the promise with them.
+     */
+    recoverStalledTasks?(): IQueueTaskContext[] | PromiseLike<IQueueTaskContext[]>;
+
+    /**
+     * Moves a task from the dead-letter area back to the queue.
+     *
+     * The task keeps its previous attempts and is retried with the full number of attempts again.
+     * If another task with the same idempotency key is queued or running, the task is not moved
+     * and the context of the other task is returned instead.
+     *
+     * @param {any} id The ID of the task.
+     *
+     * @returns {Nilable<IQueueTaskContext>|PromiseLike<Nilable<IQueueTaskContext>>} The new context, if task has been found, or the promise with it.
+     */
+    requeueDeadLetterTask?(id: any): Nilable<IQueueTaskContext> | PromiseLike<Nilable<IQueueTaskContext>>;
+
+    /**
+     * Sets the limits for the number of tasks, which are executed at the same time.
+     *
+     * Tasks, which exceed the limits, have to wait until slots become free.
+     *
+     * @param {IQueueConcurrencyLimits} limits The limits.
+     */
+    setConcurrency?(limits: IQueueConcurrencyLimits): any;
+
+    /**
+     * Sets the keys of the tasks, which are not started, until they are resumed.
+     *
+     * Running tasks are not interrupted.
+     *
+     * @param {string[]} keys The keys.
+     */
+    setPausedKeys?(keys: string[]): any;
+
+    /**
+     * Sets the limits for the number of tasks, which can be started within an interval.
+     *
+     * Tasks, which exceed the limits, have to stay queued until capacity comes back.
+     *
+     * @param {IQueueRateLimits} limits The limits.
+     */
+    setRateLimits?(limits: IQueueRateLimits): any;
+
+    /**
+     * Sets the default retry policy of the queue.
+     *
+     * Its `isRetryable` function should be used for tasks without one,
+     * like tasks, which have been restored from a persistent storage,
+     * because functions cannot be persisted.
+     *
+     * @param {Nilable<IQueueRetryPolicy>} policy The policy.
+     */
+    setRetryPolicy?(policy: Nilable<IQueueRetryPolicy>): any;
+
+    /**
+     * Stops all enqueued tasks.
+     *
+     * Interrupted tasks have to be resumed by `enqueueRemainingTasks()`.
+     *
+     * @param {Nilable<IQueueStopOptions>} [options] Custom options.
+     *
+     * @returns {any} The result, which can be an `IQueueStopResult` or the promise with it.
+     */
+    stopAllEnqueuedTasks(options?: Nilable<IQueueStopOptions>): any;
+}
+
+/**
+ * Statistics of a queue.
+ */
+export interface IQueueStats {
     /**
-     * The error.
+     * The statistics by task key.
      */
-    error: any;
+    byKey: Record<string, IQueueKeyStats>;
+    /**
+     * The number of known tasks by status.
+     */
+    byStatus: Record<QueueTaskStatus, number>;
+    /**
+     * The number of running tasks.
+     */
+    inFlight: number;
+    /**
+     * The time, in milliseconds, the oldest due task waits for its execution, if there is one.
+     */
+    oldestWaitingAge: Nilable<number>;
+    /**
+     * The current state of all rate limits.
+     */
+    rateLimits: IQueueRateLimitStats[];
+    /**
+     * The throughput within the last interval.
+     */
+    throughput: IQueueThroughputStats;
 }
 
 /**
- * Execution context for a `QueueExecutionHandler` instance.
+ * Throughput of tasks within an interval.
  */
-export interface IQueueExecutionHandlerContext {
+export interface IQueueThroughputStats {
     /**
-     * Data.
+     * The number of failed attempts.
      */
-    data: QueueTaskData;
+    failed: number;
     /**
-     * The key of the task.
+     * The ratio of failed attempts to all finished attempts, between `0` and `1`.
      */
-    taskKey: string;
+    failureRate: number;
+    /**
+     * The length of the interval, in milliseconds.
+     */
+    interval: number;
+    /**
+     * The number of finished attempts per second.
+     */
+    perSecond: number;
+    /**
+     * The number of succeeded attempts.
+     */
+    succeeded: number;
 }
 
 /**
- * A queue storage.
+ * Options for stopping a queue.
  */
-export interface IQueueStorage {
+export interface IQueueStopOptions {
     /**
-     * Registers one or more error handlers.
-     *
-     * @param {QueueStorageEvent} event The name of the known event.
-     * @param {Func} handler The handler to register.
+     * Wait for running tasks, before they are interrupted.
      *
-     * @returns {this} This instance.
+     * Default: `false`
      */
-    on(event: "error", handler: QueueErrorHandler): this;
-    on(event: "execute", handler: QueueExecutionHandler): this;
-    on(event: QueueStorageEvent, handler: Func): this;
-
+    drain?: Nilable<boolean>;
     /**
-     * Enqueues all remaing tasks, which are not finished or aborted.
+     * The maximum time, in milliseconds, to wait for running tasks, if `drain` is `true`.
      *
-     * @returns {IQueueTaskContext[]|PromiseLike<IQueueTaskContext[]>} The contextes or the promise with it.
+     * If not defined, there is no limit.
      */
-    enqueueRemainingTasks(): IQueueTaskContext[] | PromiseLike<IQueueTaskContext[]>;
+    timeout?: Nilable<number>;
+}
 
+/**
+ * A result of stopping a queue.
+ */
+export interface IQueueStopResult {
     /**
-     * Queues a task.
-     *
-     * @param {IQueueTaskInStorageOptions} options The options.
-     *
-     * @returns {IQueueTaskContext|PromiseLike<IQueueTaskContext>} The context or the promise with it.
+     * The tasks, which have been interrupted while they were running,
+     * and which are resumed on next start.
      */
-    enqueueTask: (options: IQueueTaskInStorageOptions) => IQueueTaskContext | PromiseLike<IQueueTaskContext>;
+    interruptedTasks: IQueueTaskContext[];
+}
 
+/**
+ * Information about a single attempt of a task execution.
+ */
+export interface IQueueTaskAttempt {
     /**
-     * Stops all enqueued tasks.
+     * The number of the attempt, beginning at `1`.
+     */
+    attempt: number;
+    /**
+     * The time, the attempt ended.
+     */
+    endedAt: Date;
+    /**
+     * The error, if attempt failed.
+     */
+    error?: any;
+    /**
+     * The time, the attempt started.
      */
-    stopAllEnqueuedTasks(): any;
+    startedAt: Date;
 }
 
 /**
@@ -90,20 +743,176 @@ export interface IQueueTaskContext {
      * The ID of the task.
      */
     id: any;
+    /**
+     * Is `true`, if the task has not been enqueued, because it is a duplicate
+     * of an existing one with the same idempotency key, which is referenced by `id`.
+     */
+    isDuplicate?: Nilable<boolean>;
+}
+
+/**
+ * Context for a lifecycle event of a task.
+ */
+export interface IQueueTaskEventContext {
+    /**
+     * The number of the current attempt, beginning at `1`, or `0`, if task has not been executed yet.
+     */
+    attempt: number;
+    /**
+     * The data of the task.
+     */
+    data: QueueTaskData;
+    /**
+     * The time, in milliseconds, the attempt took, if it has been finished.
+     */
+    duration?: Nilable<number>;
+    /**
+     * The error of the attempt, if it failed.
+     */
+    error?: any;
+    /**
+     * The ID of the task.
+     */
+    id: any;
+    /**
+     * The key of the task.
+     */
+    key: string;
+    /**
+     * The result, if task succeeded.
+     */
+    result?: any;
 }
 
 /**
  * An execution context for a `QueueTask`.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
  */
-export interface IQueueTaskExecutionContext {
+export interface IQueueTaskExecutionContext<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> {
+    /**
+     * The number of the current attempt, beginning at `1`.
+     */
+    attempt: number;
     /**
      * (normalized) Data for the execution.
      */
+    data: TData;
+    /**
+     * The key of the task.
+     */
+    key: TKey;
+    /**
+     * The results of the parent tasks, by their names, if the task is part of a flow.
+     *
+     * Parents, which did not succeed, are missing.
+     */
+    parentResults?: Nilable<Record<string, any>>;
+    /**
+     * The signal, which is aborted, if the task has been cancelled,
+     * so long running operations can be aborted cooperatively.
+     */
+    signal: AbortSignal;
+    /**
+     * The propagation context, which has been captured, when the task has been enqueued.
+     */
+    traceContext?: Nilable<IQueueTraceContext>;
+}
+
+/**
+ * Information about a task, which is part of a flow.
+ */
+export interface IQueueTaskFlow {
+    /**
+     * The names of the tasks of the same flow, which have to be finished,
+     * before the task can be executed.
+     */
+    dependsOn?: Nilable<string[]>;
+    /**
+     * Defines what happens, if a parent task does not succeed. Default: `"cancel"`
+     */
+    failurePolicy?: Nilable<QueueFlowFailurePolicy>;
+    /**
+     * The ID of the flow.
+     */
+    id: string;
+    /**
+     * The unique name of the task inside the flow.
+     */
+    name: string;
+}
+
+/**
+ * A schema, which validates and normalizes the data of a task, like one of `zod` module.
+ *
+ * @template TData Type of the data.
+ */
+export interface IQueueTaskSchema<TData extends QueueTaskData = QueueTaskData> {
+    /**
+     * Validates and normalizes data.
+     *
+     * @param {unknown} data The data to validate.
+     *
+     * @returns {TData} The normalized data.
+     *
+     * @throws Data is invalid.
+     */
+    parse(data: unknown): TData;
+}
+
+/**
+ * Information about a task.
+ */
+export interface IQueueTaskInfo {
+    /**
+     * The history of all attempts.
+     */
+    attempts: IQueueTaskAttempt[];
+    /**
+     * The time, the task has been enqueued.
+     */
+    createdAt: Date;
+    /**
+     * Data.
+     */
     data: QueueTaskData;
+    /**
+     * The time, the task has been finished, if it is.
+     */
+    finishedAt?: Nilable<Date>;
+    /**
+     * The flow, the task is part of.
+     */
+    flow?: Nilable<IQueueTaskFlow>;
+    /**
+     * The ID of the task.
+     */
+    id: any;
     /**
      * The key of the task.
      */
     key: string;
+    /**
+     * The last error, if there is one.
+     */
+    lastError?: any;
+    /**
+     * The value, the task returned, if it succeeded.
+     */
+    result?: any;
+    /**
+     * The number of times, the task stalled, because the lease of its worker expired.
+     */
+    stalledCount?: Nilable<number>;
+    /**
+     * The time, the first attempt has been started, if there is one.
+     */
+    startedAt?: Nilable<Date>;
+    /**
+     * The current status.
+     */
+    status: QueueTaskStatus;
 }
 
 /**
@@ -114,10 +923,72 @@ export interface IQueueTaskInStorageOptions {
      * Data.
      */
     data: QueueTaskData;
+    /**
+     * The flow, the task is part of.
+     *
+     * A storage should not execute the task, before all tasks of `dependsOn` are finished.
+     */
+    flow?: Nilable<IQueueTaskFlow>;
+    /**
+     * A unique key per task key, which is used to detect duplicates.
+     *
+     * A storage should not enqueue a task, if another one with the same key
+     * is queued, running or has been finished recently, and return the
+     * context of the existing task instead. This check has to be atomic.
+     */
+    idempotencyKey?: Nilable<string>;
     /**
      * The key of the task.
      */
     key: string;
+    /**
+     * The priority of the task. Tasks with higher values are executed first.
+     *
+     * Default: `0`
+     */
+    priority?: Nilable<number>;
+    /**
+     * The retry policy for the task.
+     */
+    retry?: Nilable<IQueueRetryPolicy>;
+    /**
+     * The time, the task should be executed at.
+     *
+     * If not defined, the task should be executed as soon as possible.
+     */
+    runAt?: Nilable<Date>;
+    /**
+     * The maximum time, in milliseconds, an attempt of the task can run.
+     *
+     * If not defined, there is no limit.
+     */
+    timeout?: Nilable<number>;
+    /**
+     * The propagation context of the operation, which enqueued the task.
+     */
+    traceContext?: Nilable<IQueueTraceContext>;
+}
+
+/**
+ * A propagation context, which links the execution of a task
+ * to the operation, like a HTTP request, which enqueued it.
+ *
+ * It has to be serializable, because it is stored with the task.
+ */
+export interface IQueueTraceContext {
+    /**
+     * Arbitrary metadata, like the ID of the originating request.
+     */
+    metadata?: Nilable<Record<string, any>>;
+    /**
+     * The value of a W3C `traceparent` header.
+     * An invalid value is ignored together with `tracestate`.
+     */
+    traceparent?: Nilable<string>;
+    /**
+     * The value of a W3C `tracestate` header.
+     */
+    tracestate?: Nilable<string>;
 }
 
 /**
@@ -130,6 +1001,33 @@ export interface IRegisterQueueTasksOptions {
     tasks: Record<string, QueueTask>;
 }
 
+/**
+ * The result of an item of a `QueueBatchTask`, which has the same structure
+ * as the ones of `Promise.allSettled()`.
+ *
+ * @template TResult Type of the result.
+ */
+export type QueueBatchItemResult<TResult = any> = {
+    status: "fulfilled";
+    value: TResult;
+} | {
+    reason: any;
+    status: "rejected";
+};
+
+/**
+ * A task, which executes a list of queued items with the same key at once.
+ *
+ * @param {IQueueBatchExecutionContext<TData, TKey>} context The execution context.
+ *
+ * @returns {any} The list of results, one for each item, or `null` / `undefined`, if all items succeeded. Can also be a promise.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
+ */
+export type QueueBatchTask<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> =
+    (context: IQueueBatchExecutionContext<TData, TKey>) => any;
+
 /**
  * An error handler.
  *
@@ -147,12 +1045,92 @@ export type QueueErrorHandler = (context: IQueueErrorHandlerContext) => any;
 /**
  * A name of a known queue event.
  */
-export type QueueEvent = "error";
+export type QueueEvent = "error" | QueueLifecycleEvent;
+
+/**
+ * A handler for a queue event.
+ *
+ * @param {IQueueEventContexts[TEvent]} context The context.
+ */
+export type QueueEventHandler<TEvent extends QueueEvent = QueueEvent> = (context: IQueueEventContexts[TEvent]) => any;
+
+/**
+ * Defines what happens, if a parent task of a flow fails permanently or is cancelled:
+ *
+ * - `"cancel"`: all tasks, which depend on it, are cancelled
+ * - `"continue"`: the tasks, which depend on it, are executed anyway
+ */
+export type QueueFlowFailurePolicy = "cancel" | "continue";
+
+/**
+ * A status of a flow:
+ *
+ * - `"cancelled"`: all tasks are finished and at least one has been cancelled
+ * - `"failed"`: all tasks are finished and at least one failed
+ * - `"running"`: at least one task is not finished yet
+ * - `"succeeded"`: all tasks succeeded
+ */
+export type QueueFlowStatus = "cancelled" | "failed" | "running" | "succeeded";
+
+/**
+ * A name of a lifecycle event, which is emitted by a queue storage and forwarded by a queue.
+ */
+export type QueueLifecycleEvent = "drained" | "enqueued" | "failed" | "idle" | "retrying" | "stalled" | "started" | "stopped" | "succeeded";
+
+/**
+ * A middleware, which is executed around a `QueueTask`.
+ *
+ * @param {IQueueTaskExecutionContext<TData, TKey>} context The execution context.
+ * @param {QueueMiddlewareNextFunction<TData, TKey>} next The function, which executes the next middleware or the task.
+ *
+ * @returns {any} The result, which can also be a promise.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
+ */
+export type QueueMiddleware<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> =
+    (context: IQueueTaskExecutionContext<TData, TKey>, next: QueueMiddlewareNextFunction<TData, TKey>) => any;
+
+/**
+ * A function, which executes the next middleware or the task.
+ *
+ * @param {IQueueTaskExecutionContext<TData, TKey>} [context] A custom context for the next middlewares and the task.
+ *
+ * @returns {Promise<any>} The promise with the result of the task.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
+ */
+export type QueueMiddlewareNextFunction<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> =
+    (context?: IQueueTaskExecutionContext<TData, TKey>) => Promise<any>;
+
+/**
+ * A strategy of a rate limit:
+ *
+ * - `"sliding-window"`: at most `limit` tasks are started within any `interval`
+ * - `"token-bucket"`: up to `limit` tasks can be started at once, and capacity comes back continuously
+ */
+export type QueueRateLimitStrategy = "sliding-window" | "token-bucket";
+
+/**
+ * A strategy to calculate the delay between two attempts of a task.
+ */
+export type QueueRetryBackoff = "exponential" | "fixed" | "linear";
+
+/**
+ * A function, which checks if a task should be retried after an error.
+ *
+ * @param {any} error The error.
+ * @param {number} attempt The number of the failed attempt, beginning at `1`.
+ *
+ * @returns {boolean} A value, which indicates if task should be retried or not.
+ */
+export type QueueRetryPredicate = (error: any, attempt: number) => boolean;
 
 /**
  * A name of a known queue storage event.
  */
-export type QueueStorageEvent = "error" | "execute";
+export type QueueStorageEvent = "error" | "execute" | QueueLifecycleEvent;
 
 /**
  * A function, which returns a queue storage.
@@ -161,14 +1139,51 @@ export type QueueStorageProvider = AsyncQueueStorageProvider | SyncQueueStorageP
 
 /**
  * A task for a queue.
+ *
+ * @template TData Type of the data.
+ * @template TKey Type of the key.
  */
-export type QueueTask = (context: IQueueTaskExecutionContext) => any;
+export type QueueTask<TData extends QueueTaskData = QueueTaskData, TKey extends string = string> =
+    (context: IQueueTaskExecutionContext<TData, TKey>) => any;
 
 /**
  * Possible data value for a `QueueTask`.
  */
 export type QueueTaskData = Record<string, any>;
 
+/**
+ * A map of task keys and the types of their data, which can be used
+ * to check keys and data of a `Queue` at compile time.
+ *
+ * @example
+ * ```
+ * interface IMyTasks {
+ *   sendMail: {
+ *     to: string;
+ *   };
+ * }
+ *
+ * const queue = new Queue<IMyTasks>();
+ * ```
+ */
+export type QueueTaskMap = Record<string, QueueTaskData>;
+
+/**
+ * A function, which checks if data of a task is valid.
+ *
+ * It can also throw an error, which is used as `details` of the `QueueValidationError`.
+ *
+ * @param {unknown} data The data to validate.
+ *
+ * @returns {boolean|PromiseLike<boolean>} The value, which indicates if data is valid or not, or the promise with it.
+ */
+export type QueueTaskValidator = (data: unknown) => boolean | PromiseLike<boolean>;
+
+/**
+ * A status of a task.
+ */
+export type QueueTaskStatus = "cancelled" | "failed" | "queued" | "running" | "stopped" | "succeeded";
+
 /**
  * A function, which returns a queue storage synchroniously.
  */
@@ -0,0 +1,84 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import type { Nilable } from "../types/internal";
+
+export interface IAbortController {
+    abort(): void;
+    readonly signal: AbortSignal;
+}
+
+type AbortListener = (event: { type: "abort"; }) => any;
+
+function createFallbackAbortController(): IAbortController {
+    let listeners: AbortListener[] = [];
+
+    const signal = {
+        "aborted": false,
+        "addEventListener": (type: string, listener: AbortListener) => {
+            if (type === "abort" && !listeners.includes(listener)) {
+                listeners.push(listener);
+            }
+        },
+        "onabort": null as Nilable<AbortListener>,
+        "removeEventListener": (type: string, listener: AbortListener) => {
+            if (type === "abort") {
+                listeners = listeners.filter((l) => {
+                    return l !== listener;
+                });
+            }
+        }
+    };
+
+    return {
+        "abort": () => {
+            if (signal.aborted) {
+                return;
+            }
+
+            signal.aborted = true;
+
+            const event = { "type": "abort" as const };
+
+            [signal.onabort, ...listeners].forEach((listener) => {
+                try {
+                    listener?.call(signal, event);
+                }
+                catch (error) {
+                    console.error("[ERROR]", "@egomobile/queue", "AbortController.abort()", error);
+                }
+            });
+
+            listeners = [];
+        },
+        signal
+    };
+}
+
+/**
+ * Creates a new abort controller. Uses the global `AbortController`,
+ * if available, otherwise a minimal fallback, which is API compatible
+ * with the `aborted` property, the `onabort` handler and the
+ * `abort` event of `AbortSignal` (Node 14 e.g.).
+ *
+ * @returns {IAbortController} The new controller.
+ */
+export function createAbortController(): IAbortController {
+    if (typeof AbortController === "function") {
+        return new AbortController();
+    }
+
+    return createFallbackAbortController();
+}
@@ -0,0 +1,153 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+export interface ICronExpression {
+    daysOfMonth: Set<number>;
+    daysOfWeek: Set<number>;
+    hours: Set<number>;
+    isDayOfMonthRestricted: boolean;
+    isDayOfWeekRestricted: boolean;
+    minutes: Set<number>;
+    months: Set<number>;
+}
+
+// check at most ~5 years, minute by minute in worst case
+const maxIterations = 5 * 366 * 24 * 60;
+// February can have 29 days in leap years
+const maxDaysOfMonths = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function isMatchingAnyDay(daysOfMonth: Set<number>, months: Set<number>): boolean {
+    return [...months].some((month) => {
+        return [...daysOfMonth].some((day) => {
+            return day <= maxDaysOfMonths[month - 1];
+        });
+    });
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+    const values = new Set<number>();
+
+    // empty strings would be converted to 0 by Number()
+    const toNumber = (str: string) => {
+        return /^[0-9]+$/.test(str) ? Number(str) : NaN;
+    };
+
+    field.split(",").forEach((part) => {
+        const [range, stepStr] = part.split("/");
+
+        const step = typeof stepStr === "undefined" ? 1 : toNumber(stepStr);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new SyntaxError(`Invalid step in cron field ${field}`);
+        }
+
+        let from: number;
+        let to: number;
+        if (range === "*") {
+            from = min;
+            to = max;
+        }
+        else if (range.includes("-")) {
+            const [fromStr, toStr] = range.split("-");
+
+            from = toNumber(fromStr);
+            to = toNumber(toStr);
+        }
+        else {
+            from = toNumber(range);
+            to = typeof stepStr === "undefined" ? from : max;
+        }
+
+        if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+            throw new SyntaxError(`Invalid range in cron field ${field}`);
+        }
+
+        for (let value = from; value <= to; value += step) {
+            values.add(value);
+        }
+    });
+
+    return values;
+}
+
+export function getNextCronDate(cron: ICronExpression, after: Date): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const isDayMatching = () => {
+        const isDayOfMonthMatching = cron.daysOfMonth.has(date.getDate());
+        const isDayOfWeekMatching = cron.daysOfWeek.has(date.getDay());
+
+        if (cron.isDayOfMonthRestricted && cron.isDayOfWeekRestricted) {
+            return isDayOfMonthMatching || isDayOfWeekMatching;
+        }
+
+        return isDayOfMonthMatching && isDayOfWeekMatching;
+    };
+
+    for (let i = 0; i < maxIterations; i++) {
+        if (!cron.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0, 0, 0);
+        }
+        else if (!isDayMatching()) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+        }
+        else if (!cron.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+        }
+        else if (!cron.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+        }
+        else {
+            return date;
+        }
+    }
+
+    throw new Error("Could not find next date for cron expression");
+}
+
+export function parseCronExpression(expression: string): ICronExpression {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new SyntaxError(`Cron expression ${expression} must have 5 fields`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields;
+
+    const parsedDaysOfWeek = parseCronField(daysOfWeek, 0, 7);
+    if (parsedDaysOfWeek.has(7)) {
+        // 7 is also Sunday
+        parsedDaysOfWeek.add(0);
+    }
+
+    const cron: ICronExpression = {
+        "daysOfMonth": parseCronField(daysOfMonth, 1, 31),
+        "daysOfWeek": parsedDaysOfWeek,
+        "hours": parseCronField(hours, 0, 23),
+        "isDayOfMonthRestricted": daysOfMonth !== "*",
+        "isDayOfWeekRestricted": daysOfWeek !== "*",
+        "minutes": parseCronField(minutes, 0, 59),
+        "months": parseCronField(months, 1, 12)
+    };
+
+    // days of week match in every month, if they are restricted
+    if (!cron.isDayOfWeekRestricted && !isMatchingAnyDay(cron.daysOfMonth, cron.months)) {
+        throw new SyntaxError(`Cron expression ${expression} never matches`);
+    }
+
+    return cron;
+}
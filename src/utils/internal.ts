@@ -13,7 +13,117 @@
 // You should have received a copy of the GNU Lesser General Public License
 // along with this program. If not, see <http://www.gnu.org/licenses/>.
 
+import type { IQueueRetryPolicy, QueueLifecycleEvent } from "../types";
+import type { Nilable } from "../types/internal";
+
+export const defaultRetryBackoff = "exponential";
+export const defaultRetryDelay = 1000;
+export const defaultRetryMaxAttempts = 3;
+export const lifecycleEvents: QueueLifecycleEvent[] = ["drained", "enqueued", "failed", "idle", "retrying", "stalled", "started", "stopped", "succeeded"];
+
+export function getRetryDelay(policy: Nilable<IQueueRetryPolicy>, attempt: number): number {
+    const backoff = policy?.backoff || defaultRetryBackoff;
+    const baseDelay = Math.max(0, policy?.delay ?? defaultRetryDelay);
+
+    let delay: number;
+    if (backoff === "fixed") {
+        delay = baseDelay;
+    }
+    else if (backoff === "linear") {
+        delay = baseDelay * attempt;
+    }
+    else if (backoff === "exponential") {
+        delay = baseDelay * Math.pow(2, attempt - 1);
+    }
+    else {
+        throw new TypeError(`${backoff} is no valid value for backoff`);
+    }
+
+    const maxDelay = policy?.maxDelay;
+    if (!isNil(maxDelay)) {
+        delay = Math.min(delay, Math.max(0, maxDelay));
+    }
+
+    let jitter = 0;
+    if (policy?.jitter === true) {
+        jitter = 1;
+    }
+    else if (typeof policy?.jitter === "number") {
+        jitter = Math.min(1, Math.max(0, policy.jitter));
+    }
+
+    if (jitter > 0) {
+        delay -= delay * jitter * Math.random();
+    }
+
+    return Math.floor(delay);
+}
+
 export function isNil(val: unknown): val is null | typeof undefined {
     return val === null ||
         typeof val === "undefined";
 }
+
+export function mergeOptions<T extends Record<string, any>>(...optionsList: Nilable<T>[]): Nilable<T> {
+    let result: Nilable<T>;
+
+    optionsList.forEach((options) => {
+        if (isNil(options)) {
+            return;
+        }
+
+        result = result || ({} as T);
+
+        Object.entries(options).forEach(([key, value]) => {
+            if (!isNil(value)) {
+                (result as Record<string, any>)[key] = value;
+            }
+        });
+    });
+
+    return result;
+}
+
+export function toSerializableError(error: any): any {
+    if (error instanceof Error) {
+        return {
+            "message": error.message,
+            "name": error.name,
+            "stack": error.stack
+        };
+    }
+
+    return error;
+}
+
+export function validateRetryPolicy(policy: IQueueRetryPolicy, name: string) {
+    if (typeof policy !== "object") {
+        throw new TypeError(`${name} must be of type object`);
+    }
+
+    const { backoff, delay, isRetryable, jitter, maxAttempts, maxDelay } = policy;
+
+    if (!isNil(backoff) && backoff !== "exponential" && backoff !== "fixed" && backoff !== "linear") {
+        throw new TypeError(`${name}.backoff must be "exponential", "fixed" or "linear"`);
+    }
+
+    if (!isNil(delay) && (typeof delay !== "number" || !(delay >= 0))) {
+        throw new TypeError(`${name}.delay must be a number greater than or equal to 0`);
+    }
+
+    if (!isNil(isRetryable) && typeof isRetryable !== "function") {
+        throw new TypeError(`${name}.isRetryable must be of type function`);
+    }
+
+    if (!isNil(jitter) && typeof jitter !== "boolean" && (typeof jitter !== "number" || !(jitter >= 0 && jitter <= 1))) {
+        throw new TypeError(`${name}.jitter must be of type boolean or a number between 0 and 1`);
+    }
+
+    if (!isNil(maxAttempts) && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+        throw new TypeError(`${name}.maxAttempts must be an integer greater than 0`);
+    }
+
+    if (!isNil(maxDelay) && (typeof maxDelay !== "number" || !(maxDelay >= 0))) {
+        throw new TypeError(`${name}.maxDelay must be a number greater than or equal to 0`);
+    }
+}
@@ -0,0 +1,145 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import type { IQueueHistogram, IQueueThroughputStats } from "../types";
+
+export interface IHistogram {
+    observe(value: number): void;
+    toStats(): IQueueHistogram;
+}
+
+export interface IThroughputCounter {
+    add(now: number, isFailed: boolean): void;
+    toStats(now: number): IQueueThroughputStats;
+}
+
+interface IThroughputBucket {
+    failed: number;
+    second: number;
+    succeeded: number;
+}
+
+export const defaultHistogramBuckets = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+export const defaultThroughputInterval = 60000;
+
+export function createHistogram(upperBounds: number[]): IHistogram {
+    const counts = upperBounds.map(() => {
+        return 0;
+    });
+
+    let count = 0;
+    let sum = 0;
+
+    return {
+        "observe": (value) => {
+            ++count;
+            sum += value;
+
+            upperBounds.forEach((le, index) => {
+                if (value <= le) {
+                    ++counts[index];
+                }
+            });
+        },
+        "toStats": () => {
+            return {
+                "buckets": upperBounds.map((le, index) => {
+                    return {
+                        "count": counts[index],
+                        le
+                    };
+                }),
+                count,
+                sum
+            };
+        }
+    };
+}
+
+export function createThroughputCounter(interval: number): IThroughputCounter {
+    // number of attempts, which ended in the seconds of current window,
+    // so that the window does not grow with the throughput
+    let buckets: IThroughputBucket[] = [];
+
+    const removeExpired = (now: number) => {
+        const windowStart = now - interval;
+
+        const index = buckets.findIndex((bucket) => {
+            return (bucket.second + 1) * 1000 > windowStart;
+        });
+
+        if (index !== 0) {
+            buckets = index > -1 ? buckets.slice(index) : [];
+        }
+    };
+
+    return {
+        "add": (now, isFailed) => {
+            removeExpired(now);
+
+            const second = Math.floor(now / 1000);
+
+            let bucket = buckets[buckets.length - 1];
+            if (bucket?.second !== second) {
+                bucket = {
+                    "failed": 0,
+                    second,
+                    "succeeded": 0
+                };
+
+                buckets.push(bucket);
+            }
+
+            if (isFailed) {
+                ++bucket.failed;
+            }
+            else {
+                ++bucket.succeeded;
+            }
+        },
+        "toStats": (now) => {
+            removeExpired(now);
+
+            let failed = 0;
+            let succeeded = 0;
+            buckets.forEach((bucket) => {
+                failed += bucket.failed;
+                succeeded += bucket.succeeded;
+            });
+
+            const total = failed + succeeded;
+
+            return {
+                failed,
+                "failureRate": total ? failed / total : 0,
+                interval,
+                "perSecond": total / (interval / 1000),
+                succeeded
+            };
+        }
+    };
+}
+
+export function validateHistogramBuckets(buckets: number[], name: string) {
+    if (!Array.isArray(buckets)) {
+        throw new TypeError(`${name} must be of type array`);
+    }
+
+    buckets.forEach((le, index) => {
+        if (typeof le !== "number" || !(le > 0)) {
+            throw new TypeError(`${name}[${index}] must be a number greater than 0`);
+        }
+    });
+}
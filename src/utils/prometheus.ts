@@ -0,0 +1,136 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import type { IQueueHistogram, IQueueStats } from "../types";
+
+type Labels = Record<string, string>;
+
+export const defaultMetricsPrefix = "queue";
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (!entries.length) {
+        return "";
+    }
+
+    return "{" + entries.map(([name, value]) => {
+        const escapedValue = value
+            .replace(/\\/g, "\\\\")
+            .replace(/\n/g, "\\n")
+            .replace(/"/g, "\\\"");
+
+        return `${name}="${escapedValue}"`;
+    }).join(",") + "}";
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) {
+        return "+Inf";
+    }
+    if (value === -Infinity) {
+        return "-Inf";
+    }
+
+    return String(value);
+}
+
+export function toPrometheusText(stats: IQueueStats, prefix: string): string {
+    const lines: string[] = [];
+
+    const addMetric = (name: string, type: "gauge" | "histogram", help: string, samples: [string, Labels, number][]) => {
+        lines.push(`# HELP ${prefix}_${name} ${help}`);
+        lines.push(`# TYPE ${prefix}_${name} ${type}`);
+
+        samples.forEach(([sampleName, labels, value]) => {
+            lines.push(`${prefix}_${sampleName}${formatLabels(labels)} ${formatValue(value)}`);
+        });
+    };
+
+    const keyEntries = Object.entries(stats.byKey);
+
+    const addGauge = (name: string, help: string, getValue: (key: string) => number | null | undefined) => {
+        const samples: [string, Labels, number][] = [];
+
+        keyEntries.forEach(([key]) => {
+            const value = getValue(key);
+
+            if (typeof value === "number") {
+                samples.push([name, { key }, value]);
+            }
+        });
+
+        addMetric(name, "gauge", help, samples);
+    };
+
+    const addHistogram = (name: string, help: string, getHistogram: (key: string) => IQueueHistogram) => {
+        const samples: [string, Labels, number][] = [];
+
+        keyEntries.forEach(([key]) => {
+            const histogram = getHistogram(key);
+
+            // values are stored in milliseconds, Prometheus uses seconds
+            histogram.buckets.forEach((bucket) => {
+                samples.push([`${name}_bucket`, { key, "le": formatValue(bucket.le / 1000) }, bucket.count]);
+            });
+            samples.push([`${name}_bucket`, { key, "le": "+Inf" }, histogram.count]);
+            samples.push([`${name}_sum`, { key }, histogram.sum / 1000]);
+            samples.push([`${name}_count`, { key }, histogram.count]);
+        });
+
+        addMetric(name, "histogram", help, samples);
+    };
+
+    const taskSamples: [string, Labels, number][] = [];
+    keyEntries.forEach(([key, keyStats]) => {
+        Object.entries(keyStats.byStatus).forEach(([status, count]) => {
+            taskSamples.push(["tasks", { key, status }, count]);
+        });
+    });
+    addMetric("tasks", "gauge", "Number of known tasks by key and status.", taskSamples);
+
+    addGauge("tasks_in_flight", "Number of running tasks by key.", (key) => {
+        return stats.byKey[key].inFlight;
+    });
+    addGauge("oldest_waiting_age_seconds", "Time the oldest due task of a key waits for its execution.", (key) => {
+        const age = stats.byKey[key].oldestWaitingAge;
+
+        return typeof age === "number" ? age / 1000 : null;
+    });
+    addGauge("throughput_per_second", "Number of finished attempts per second within the last interval.", (key) => {
+        return stats.byKey[key].throughput.perSecond;
+    });
+    addGauge("failure_rate", "Ratio of failed attempts to all finished attempts within the last interval.", (key) => {
+        return stats.byKey[key].throughput.failureRate;
+    });
+
+    addHistogram("task_duration_seconds", "Execution duration of attempts.", (key) => {
+        return stats.byKey[key].duration;
+    });
+    addHistogram("task_wait_seconds", "Time tasks waited after they became due, until they were started.", (key) => {
+        return stats.byKey[key].wait;
+    });
+
+    const toRateLimitLabels = (key: string | null | undefined): Labels => {
+        return typeof key === "string" ? { key } : {};
+    };
+    addMetric("rate_limit_available", "gauge", "Number of tasks, which can be started now, by rate limit.", stats.rateLimits.map((rateLimit) => {
+        return ["rate_limit_available", toRateLimitLabels(rateLimit.key), rateLimit.available];
+    }));
+    addMetric("rate_limit_throttled_tasks", "gauge", "Number of due tasks, which wait because of a rate limit.", stats.rateLimits.map((rateLimit) => {
+        return ["rate_limit_throttled_tasks", toRateLimitLabels(rateLimit.key), rateLimit.throttledTasks];
+    }));
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,120 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import type { IQueueRateLimit } from "../types";
+
+export interface IRateLimiter {
+    getAvailable(now: number): number;
+    getNextAvailableAt(now: number): number;
+    readonly limit: IQueueRateLimit;
+    take(now: number): void;
+}
+
+function createSlidingWindowRateLimiter(limit: IQueueRateLimit): IRateLimiter {
+    // start times of tasks in current window
+    let startTimes: number[] = [];
+
+    const removeExpired = (now: number) => {
+        const windowStart = now - limit.interval;
+
+        const index = startTimes.findIndex((startTime) => {
+            return startTime > windowStart;
+        });
+
+        startTimes = index > -1 ? startTimes.slice(index) : [];
+    };
+
+    return {
+        "getAvailable": (now) => {
+            removeExpired(now);
+
+            return Math.max(0, limit.limit - startTimes.length);
+        },
+        "getNextAvailableAt": (now) => {
+            removeExpired(now);
+
+            if (startTimes.length < limit.limit) {
+                return now;
+            }
+
+            return startTimes[startTimes.length - limit.limit] + limit.interval;
+        },
+        limit,
+        "take": (now) => {
+            startTimes.push(now);
+        }
+    };
+}
+
+function createTokenBucketRateLimiter(limit: IQueueRateLimit): IRateLimiter {
+    const tokensPerMs = limit.limit / limit.interval;
+
+    let tokens = limit.limit;
+    let lastRefillAt: number = Date.now();
+
+    const refill = (now: number) => {
+        tokens = Math.min(limit.limit, tokens + (now - lastRefillAt) * tokensPerMs);
+        lastRefillAt = now;
+    };
+
+    return {
+        "getAvailable": (now) => {
+            refill(now);
+
+            return Math.floor(tokens);
+        },
+        "getNextAvailableAt": (now) => {
+            refill(now);
+
+            if (tokens >= 1) {
+                return now;
+            }
+
+            return now + Math.ceil((1 - tokens) / tokensPerMs);
+        },
+        limit,
+        "take": (now) => {
+            refill(now);
+
+            tokens -= 1;
+        }
+    };
+}
+
+export function createRateLimiter(limit: IQueueRateLimit): IRateLimiter {
+    if (limit.strategy === "token-bucket") {
+        return createTokenBucketRateLimiter(limit);
+    }
+
+    return createSlidingWindowRateLimiter(limit);
+}
+
+export function validateRateLimit(limit: IQueueRateLimit, name: string) {
+    if (typeof limit !== "object") {
+        throw new TypeError(`${name} must be of type object`);
+    }
+
+    if (typeof limit.limit !== "number" || limit.limit < 1) {
+        throw new TypeError(`${name}.limit must be a number greater than 0`);
+    }
+
+    if (typeof limit.interval !== "number" || limit.interval <= 0) {
+        throw new TypeError(`${name}.interval must be a number greater than 0`);
+    }
+
+    if (limit.strategy && limit.strategy !== "sliding-window" && limit.strategy !== "token-bucket") {
+        throw new TypeError(`${name}.strategy must be "sliding-window" or "token-bucket"`);
+    }
+}
@@ -0,0 +1,96 @@
+// This file is part of the @egomobile/queue distribution.
+// Copyright (c) Next.e.GO Mobile SE, Aachen, Germany (https://e-go-mobile.com/)
+//
+// @egomobile/queue is free software: you can redistribute it and/or modify
+// it under the terms of the GNU Lesser General Public License as
+// published by the Free Software Foundation, version 3.
+//
+// @egomobile/queue is distributed in the hope that it will be useful, but
+// WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU
+// Lesser General Public License for more details.
+//
+// You should have received a copy of the GNU Lesser General Public License
+// along with this program. If not, see <http://www.gnu.org/licenses/>.
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { IQueueTraceContext } from "../types";
+import type { Nilable } from "../types/internal";
+import { isNil } from "./internal";
+
+// version - trace-id - parent-id - trace-flags
+const traceparentRegex = /^[0-9a-f]{2}-[0-9a-f]{32}-[0-9a-f]{16}-[0-9a-f]{2}$/;
+
+export const traceContextStorage = new AsyncLocalStorage<IQueueTraceContext>();
+
+export function mergeTraceContexts(...contexts: Nilable<IQueueTraceContext>[]): Nilable<IQueueTraceContext> {
+    let metadata: Nilable<Record<string, any>>;
+    let traceparent: Nilable<string>;
+    let tracestate: Nilable<string>;
+
+    // later contexts overwrite earlier ones
+    contexts.forEach((context) => {
+        if (isNil(context)) {
+            return;
+        }
+
+        if (!isNil(context.metadata)) {
+            metadata = {
+                ...metadata,
+                ...context.metadata
+            };
+        }
+        if (!isNil(context.traceparent)) {
+            traceparent = context.traceparent;
+            tracestate = context.tracestate;
+        }
+        else if (!isNil(context.tracestate)) {
+            tracestate = context.tracestate;
+        }
+    });
+
+    if (isNil(metadata) && isNil(traceparent) && isNil(tracestate)) {
+        return null;
+    }
+
+    const result: IQueueTraceContext = {};
+    if (!isNil(metadata)) {
+        result.metadata = metadata;
+    }
+    if (!isNil(traceparent)) {
+        result.traceparent = traceparent;
+    }
+    if (!isNil(tracestate)) {
+        result.tracestate = tracestate;
+    }
+
+    return result;
+}
+
+export function sanitizeTraceContext(context: IQueueTraceContext, name: string): IQueueTraceContext {
+    if (typeof context !== "object") {
+        throw new TypeError(`${name} must be of type object`);
+    }
+
+    if (!isNil(context.metadata) && typeof context.metadata !== "object") {
+        throw new TypeError(`${name}.metadata must be of type object`);
+    }
+
+    // W3C Trace Context: invalid headers are ignored, and
+    // `tracestate` is only valid with a valid `traceparent`
+    const result: IQueueTraceContext = {
+        ...context
+    };
+    if (
+        !isNil(result.traceparent) &&
+        (typeof result.traceparent !== "string" || !traceparentRegex.test(result.traceparent))
+    ) {
+        delete result.traceparent;
+        delete result.tracestate;
+    }
+    if (!isNil(result.tracestate) && typeof result.tracestate !== "string") {
+        delete result.tracestate;
+    }
+
+    return result;
+}